@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { reactive, h, nextTick } from 'vue'
+import { mount } from '@vue/test-utils'
+
+interface MockProps {
+    auth?: { user: object | null; can?: Record<string, boolean> }
+}
+
+const mockProps = reactive<MockProps>({})
+
+vi.mock('@inertiajs/vue3', () => ({
+    usePage: () => ({ props: mockProps }),
+    router: { visit: vi.fn() },
+}))
+
+import { Can } from '../components/Can'
+import { HasRole } from '../components/HasRole'
+import { createAuth } from '../stores/auth'
+
+const render = (component: object, props: Record<string, unknown>, plugins: object[] = []) => {
+    return mount(component, {
+        props,
+        global: { plugins },
+        slots: {
+            default: () => h('span', 'allowed'),
+            fallback: () => h('span', 'denied'),
+        },
+    })
+}
+
+beforeEach(() => {
+    delete mockProps.auth
+    Object.assign(mockProps, {
+        auth: {
+            user: { id: 1, name: 'John', email: 'john@test.com', roles: ['editor'], permissions: ['posts.*'] },
+            can: { 'billing.manage': false },
+        },
+    })
+})
+
+describe('Can', () => {
+    it('renders the default slot when the user has the ability', () => {
+        const wrapper = render(Can, { ability: 'posts.create' })
+
+        expect(wrapper.text()).toBe('allowed')
+    })
+
+    it('renders the fallback slot otherwise', () => {
+        const wrapper = render(Can, { ability: 'billing.manage' })
+
+        expect(wrapper.text()).toBe('denied')
+    })
+
+    it('renders nothing without a fallback slot', () => {
+        const wrapper = mount(Can, {
+            props: { ability: 'users.delete' },
+            slots: { default: () => h('span', 'allowed') },
+        })
+
+        expect(wrapper.text()).toBe('')
+    })
+
+    it('accepts several abilities, any or all', () => {
+        expect(render(Can, { ability: ['billing.manage', 'posts.edit'] }).text()).toBe('allowed')
+        expect(render(Can, { ability: ['billing.manage', 'posts.edit'], all: true }).text()).toBe('denied')
+    })
+
+    it('checks a model with canOn', () => {
+        const post = { id: 1, can: { update: true, delete: false } }
+
+        expect(render(Can, { ability: 'update', model: post }).text()).toBe('allowed')
+        expect(render(Can, { ability: 'delete', model: post }).text()).toBe('denied')
+    })
+
+    it('updates when auth data changes', async () => {
+        const wrapper = render(Can, { ability: 'billing.manage' })
+
+        mockProps.auth!.can = { 'billing.manage': true }
+        await nextTick()
+
+        expect(wrapper.text()).toBe('allowed')
+    })
+})
+
+describe('Can with custom resolvers', () => {
+    it('resolves permissions with app-wide createAuth() options', () => {
+        const plugin = createAuth({ resolvePermissions: () => ['users.delete'] })
+
+        expect(render(Can, { ability: 'users.delete' }, [plugin]).text()).toBe('allowed')
+        expect(render(Can, { ability: 'posts.create' }, [plugin]).text()).toBe('denied')
+    })
+})
+
+describe('HasRole', () => {
+    it('renders the default slot for any matching role', () => {
+        expect(render(HasRole, { roles: ['admin', 'editor'] }).text()).toBe('allowed')
+        expect(render(HasRole, { roles: 'editor' }).text()).toBe('allowed')
+    })
+
+    it('renders the fallback slot otherwise', () => {
+        expect(render(HasRole, { roles: ['admin'] }).text()).toBe('denied')
+    })
+
+    it('requires every role with all', () => {
+        expect(render(HasRole, { roles: ['admin', 'editor'], all: true }).text()).toBe('denied')
+    })
+
+    it('renders the fallback slot for guests', () => {
+        mockProps.auth = { user: null }
+
+        expect(render(HasRole, { roles: 'editor' }).text()).toBe('denied')
+    })
+
+    it('resolves roles with the auth prop', () => {
+        const auth = { resolveRoles: () => ['admin'] }
+
+        expect(render(HasRole, { roles: 'admin', auth }).text()).toBe('allowed')
+        expect(render(HasRole, { roles: 'editor', auth }).text()).toBe('denied')
+    })
+
+    it('resolves roles with app-wide createAuth() options', () => {
+        const plugin = createAuth({ resolveRoles: () => ['admin'] })
+
+        expect(render(HasRole, { roles: 'admin' }, [plugin]).text()).toBe('allowed')
+        expect(render(HasRole, { roles: 'admin', auth: { resolveRoles: () => [] } }, [plugin]).text()).toBe('denied')
+    })
+})
@@ -0,0 +1,182 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { reactive, h, nextTick, defineComponent, withDirectives, ref } from 'vue'
+import { mount } from '@vue/test-utils'
+
+interface MockProps {
+    auth?: { user: object | null; can?: Record<string, boolean> }
+}
+
+const mockProps = reactive<MockProps>({})
+
+vi.mock('@inertiajs/vue3', () => ({
+    usePage: () => ({ props: mockProps }),
+    router: { visit: vi.fn() },
+}))
+
+import { vCan } from '../directives/can'
+import { createAuth } from '../stores/auth'
+import type { CanDirectiveValue } from '../types'
+
+const mountButton = (value: () => CanDirectiveValue, modifiers: Record<string, boolean> = {}) => {
+    return mount(defineComponent({
+        setup() {
+            return () => withDirectives(
+                h('button', { style: 'display: inline-block' }, 'Delete'),
+                [[vCan, value(), undefined, modifiers]],
+            )
+        },
+    }))
+}
+
+beforeEach(() => {
+    delete mockProps.auth
+    Object.assign(mockProps, {
+        auth: {
+            user: { id: 1, name: 'John', email: 'john@test.com', permissions: ['posts.view'] },
+            can: {},
+        },
+    })
+})
+
+describe('v-can', () => {
+    it('leaves the element alone when allowed', () => {
+        const wrapper = mountButton(() => 'posts.view')
+
+        expect(wrapper.element.style.display).toBe('inline-block')
+    })
+
+    it('hides the element when denied', () => {
+        const wrapper = mountButton(() => 'posts.delete')
+
+        expect(wrapper.element.style.display).toBe('none')
+    })
+
+    it('disables the element with the disable modifier', () => {
+        const wrapper = mountButton(() => 'posts.delete', { disable: true })
+
+        expect(wrapper.element.style.display).toBe('inline-block')
+        expect(wrapper.element.hasAttribute('disabled')).toBe(true)
+        expect(wrapper.element.getAttribute('aria-disabled')).toBe('true')
+    })
+
+    it('checks a model', () => {
+        const post = { id: 1, can: { delete: true } }
+        const wrapper = mountButton(() => ({ ability: 'delete', model: post }))
+
+        expect(wrapper.element.style.display).toBe('inline-block')
+    })
+
+    it('reacts to auth changes', async () => {
+        const wrapper = mountButton(() => 'posts.delete')
+
+        mockProps.auth!.can = { 'posts.delete': true }
+        await nextTick()
+
+        expect(wrapper.element.style.display).toBe('inline-block')
+    })
+
+    it('reacts to binding changes', async () => {
+        const ability = ref('posts.view')
+        const wrapper = mountButton(() => ability.value, { disable: true })
+
+        expect(wrapper.element.hasAttribute('disabled')).toBe(false)
+
+        ability.value = 'posts.delete'
+        await nextTick()
+
+        expect(wrapper.element.hasAttribute('disabled')).toBe(true)
+    })
+
+    it('leaves a reactive disabled binding alone when allowed', async () => {
+        const saving = ref(true)
+        const wrapper = mount(defineComponent({
+            setup() {
+                return () => withDirectives(
+                    h('button', { disabled: saving.value }, 'Save'),
+                    [[vCan, 'posts.view', undefined, { disable: true }]],
+                )
+            },
+        }))
+
+        expect(wrapper.element.hasAttribute('disabled')).toBe(true)
+
+        saving.value = false
+        await nextTick()
+
+        expect(wrapper.element.hasAttribute('disabled')).toBe(false)
+        expect(wrapper.element.hasAttribute('aria-disabled')).toBe(false)
+    })
+
+    it('keeps a denied element disabled when its disabled binding changes', async () => {
+        const saving = ref(true)
+        const wrapper = mount(defineComponent({
+            setup() {
+                return () => withDirectives(
+                    h('button', { disabled: saving.value }, 'Save'),
+                    [[vCan, 'posts.delete', undefined, { disable: true }]],
+                )
+            },
+        }))
+
+        saving.value = false
+        await nextTick()
+
+        expect(wrapper.element.hasAttribute('disabled')).toBe(true)
+
+        saving.value = true
+        await nextTick()
+        mockProps.auth!.can = { 'posts.delete': true }
+        await nextTick()
+
+        expect(wrapper.element.hasAttribute('disabled')).toBe(true)
+
+        saving.value = false
+        await nextTick()
+
+        expect(wrapper.element.hasAttribute('disabled')).toBe(false)
+    })
+
+    it('resolves permissions with the auth option', () => {
+        const wrapper = mountButton(() => ({ ability: 'users.delete', auth: { resolvePermissions: () => ['users.*'] } }))
+
+        expect(wrapper.element.style.display).toBe('inline-block')
+    })
+
+    it('resolves permissions with app-wide createAuth() options', () => {
+        const wrapper = mount(defineComponent({
+            setup() {
+                return () => withDirectives(h('button', 'Delete'), [[vCan, 'users.delete']])
+            },
+        }), { global: { plugins: [createAuth({ resolvePermissions: () => ['users.delete'] })] } })
+
+        expect(wrapper.element.style.display).toBe('')
+    })
+
+    it('stops its auth state when the element unmounts', async () => {
+        const resolvePermissions = vi.fn(() => ['posts.view'])
+        const show = ref(true)
+        const wrapper = mount(defineComponent({
+            setup() {
+                return () => h('div', show.value
+                    ? [withDirectives(h('button', 'Delete'), [[vCan, { ability: 'posts.delete', auth: { resolvePermissions } }]])]
+                    : [])
+            },
+        }))
+
+        show.value = false
+        await nextTick()
+        resolvePermissions.mockClear()
+
+        mockProps.auth!.user = { id: 2 }
+        await nextTick()
+
+        expect(resolvePermissions).not.toHaveBeenCalled()
+        wrapper.unmount()
+    })
+
+    it('provides SSR props for denied abilities', () => {
+        const binding = { value: 'posts.delete', modifiers: {} } as Parameters<NonNullable<typeof vCan.getSSRProps>>[0]
+
+        expect(vCan.getSSRProps!(binding, null as never)).toEqual({ style: { display: 'none' } })
+    })
+})
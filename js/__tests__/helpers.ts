@@ -1,11 +1,14 @@
 import { defineComponent, h } from 'vue'
-import { mount, type VueWrapper } from '@vue/test-utils'
+import { mount, type VueWrapper, type ComponentMountingOptions } from '@vue/test-utils'
 
 /**
  * Mount a composable inside a real component so that Vue lifecycle
  * hooks (onUnmounted, watch, etc.) work correctly.
  */
-export function withSetup<T>(setup: () => T): { result: T; wrapper: VueWrapper } {
+export function withSetup<T>(
+    setup: () => T,
+    options: ComponentMountingOptions<object> = {},
+): { result: T; wrapper: VueWrapper } {
     let result!: T
 
     const wrapper = mount(
@@ -15,6 +18,7 @@ export function withSetup<T>(setup: () => T): { result: T; wrapper: VueWrapper }
                 return () => h('div')
             },
         }),
+        options,
     )
 
     return { result, wrapper }
@@ -0,0 +1,184 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { reactive, nextTick } from 'vue'
+import type { VueWrapper } from '@vue/test-utils'
+import { withSetup } from './helpers'
+
+const mockPage = reactive({ url: '/users', props: {} })
+const { mockVisit } = vi.hoisted(() => ({ mockVisit: vi.fn() }))
+
+vi.mock('@inertiajs/vue3', () => ({
+    usePage: () => mockPage,
+    router: { visit: mockVisit },
+}))
+
+import { useFilters } from '../composables/useFilters'
+import { useSorting } from '../composables/useSorting'
+import { forgetQuery, rememberQuery } from '../utils/remember'
+
+const mounted: VueWrapper[] = []
+
+const mountWith = (setup: () => unknown): void => {
+    mounted.push(withSetup(setup).wrapper)
+}
+
+const setLocation = (url: string): void => {
+    Object.defineProperty(window, 'location', { value: new URL(url), writable: true })
+    mockPage.url = url.replace('http://localhost', '')
+}
+
+const remembered = (key = '/users', storage: Storage = sessionStorage): unknown => {
+    return JSON.parse(storage.getItem(`remember:${key}`) ?? 'null')
+}
+
+beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2024-03-01T12:00:00Z'))
+    mockVisit.mockReset()
+    sessionStorage.clear()
+    localStorage.clear()
+    setLocation('http://localhost/users')
+})
+
+afterEach(() => {
+    mounted.splice(0).forEach((wrapper) => wrapper.unmount())
+    vi.useRealTimers()
+})
+
+describe('remember', () => {
+    it('remembers the query the page was opened with', () => {
+        setLocation('http://localhost/users?search=jo&sort=name&page=3')
+
+        mountWith(() => useFilters(() => ({ search: 'jo' }), { remember: true }))
+
+        expect(remembered()).toEqual({
+            query: 'search=jo&sort=name',
+            expires: Date.now() + 24 * 60 * 60 * 1000,
+        })
+    })
+
+    it('remembers later URLs for the same page', async () => {
+        mountWith(() => useSorting(() => null, { remember: true }))
+
+        setLocation('http://localhost/users?sort=email&direction=desc')
+        await nextTick()
+
+        expect(remembered()).toMatchObject({ query: 'sort=email&direction=desc' })
+
+        mockPage.url = '/teams?sort=name'
+        await nextTick()
+
+        expect(remembered()).toMatchObject({ query: 'sort=email&direction=desc' })
+    })
+
+    it('restores the remembered query with a replace visit when the URL is bare', () => {
+        sessionStorage.setItem('remember:/users', JSON.stringify({ query: 'search=jo', expires: null }))
+
+        mountWith(() => useFilters(() => ({ search: '' }), { remember: true }))
+
+        expect(mockVisit).toHaveBeenCalledOnce()
+        expect(mockVisit.mock.calls[0][0]).toBe('/users?search=jo')
+        expect(mockVisit.mock.calls[0][1]).toMatchObject({ replace: true, preserveState: true })
+    })
+
+    it('restores once when several composables remember the same page', () => {
+        sessionStorage.setItem('remember:/users', JSON.stringify({ query: 'search=jo&sort=name', expires: null }))
+
+        mountWith(() => {
+            useFilters(() => ({ search: '' }), { remember: true })
+            useSorting(() => null, { remember: true })
+        })
+
+        expect(mockVisit).toHaveBeenCalledOnce()
+    })
+
+    it('does not restore when the page has its own query', () => {
+        sessionStorage.setItem('remember:/users', JSON.stringify({ query: 'search=jo', expires: null }))
+        setLocation('http://localhost/users?status=active')
+
+        mountWith(() => useFilters(() => ({ search: '', status: 'active' }), { remember: true }))
+
+        expect(mockVisit).not.toHaveBeenCalled()
+        expect(remembered()).toMatchObject({ query: 'status=active' })
+    })
+
+    it('ignores expired queries', () => {
+        sessionStorage.setItem('remember:/users', JSON.stringify({ query: 'search=jo', expires: Date.now() - 1 }))
+
+        mountWith(() => useFilters(() => ({ search: '' }), { remember: true }))
+
+        expect(mockVisit).not.toHaveBeenCalled()
+        expect(remembered()).toBeNull()
+    })
+
+    it('forgets the query once the filters are cleared', async () => {
+        setLocation('http://localhost/users?search=jo')
+        mountWith(() => useFilters(() => ({ search: 'jo' }), { remember: true }))
+
+        setLocation('http://localhost/users')
+        await nextTick()
+
+        expect(remembered()).toBeNull()
+    })
+
+    it('uses the given key, storage, expiry and exclusions', () => {
+        setLocation('http://localhost/users?search=jo&per_page=50')
+
+        mountWith(() =>
+            useFilters(() => ({ search: 'jo' }), {
+                remember: { key: 'users.index', storage: 'local', ttl: null, except: ['per_page'] },
+            }),
+        )
+
+        expect(remembered('users.index', localStorage)).toEqual({ query: 'search=jo', expires: null })
+        expect(remembered()).toBeNull()
+    })
+
+    it('does nothing unless asked to', () => {
+        setLocation('http://localhost/users?search=jo')
+
+        mountWith(() => useFilters(() => ({ search: 'jo' })))
+
+        expect(sessionStorage.length).toBe(0)
+    })
+
+    it('survives storage that throws on write', async () => {
+        const storage = {
+            getItem: () => null,
+            setItem: () => {
+                throw new DOMException('Quota exceeded', 'QuotaExceededError')
+            },
+            removeItem: () => {
+                throw new DOMException('Blocked', 'SecurityError')
+            },
+        } as unknown as Storage
+        setLocation('http://localhost/users?search=jo')
+
+        expect(() => mountWith(() => useFilters(() => ({ search: 'jo' }), { remember: { storage } }))).not.toThrow()
+
+        setLocation('http://localhost/users')
+        await nextTick()
+
+        expect(() => forgetQuery({ storage })).not.toThrow()
+    })
+
+    it('stops remembering when stopped outside a component', async () => {
+        const stop = rememberQuery(true)
+        stop()
+
+        setLocation('http://localhost/users?search=jo')
+        await nextTick()
+
+        expect(remembered()).toBeNull()
+    })
+
+    it('clears a remembered query with forgetQuery()', () => {
+        sessionStorage.setItem('remember:/users', JSON.stringify({ query: 'search=jo', expires: null }))
+        localStorage.setItem('remember:reports', JSON.stringify({ query: 'search=jo', expires: null }))
+
+        forgetQuery()
+        forgetQuery({ key: 'reports', storage: 'local' })
+
+        expect(sessionStorage.length).toBe(0)
+        expect(localStorage.length).toBe(0)
+    })
+})
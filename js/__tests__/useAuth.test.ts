@@ -3,15 +3,18 @@ import { reactive } from 'vue'
 import { withSetup } from './helpers'
 
 const mockProps = reactive<Record<string, any>>({})
+const { mockVisit } = vi.hoisted(() => ({ mockVisit: vi.fn() }))
 
 vi.mock('@inertiajs/vue3', () => ({
     usePage: () => ({ props: mockProps }),
-    router: { visit: vi.fn() },
+    router: { visit: mockVisit },
 }))
 
 import { useAuth } from '../composables/useAuth'
+import { definePolicies } from '../stores/policies'
 
 beforeEach(() => {
+    mockVisit.mockClear()
     Object.keys(mockProps).forEach((key) => delete mockProps[key])
 })
 
@@ -154,4 +157,288 @@ describe('useAuth', () => {
         expect(result.user.value).toBeNull()
         expect(result.isGuest.value).toBe(true)
     })
+
+    it('hasAllRoles requires every role', () => {
+        Object.assign(mockProps, {
+            auth: { user: { id: 1, name: 'Admin', email: 'a@test.com', roles: ['admin', 'editor'] } },
+        })
+
+        const { result } = withSetup(() => useAuth())
+
+        expect(result.hasAllRoles('admin', 'editor')).toBe(true)
+        expect(result.hasAllRoles('admin', 'viewer')).toBe(false)
+    })
+
+    describe('abilities', () => {
+        const withPermissions = (permissions: unknown[], can?: Record<string, boolean>) => {
+            Object.assign(mockProps, {
+                auth: { user: { id: 1, name: 'John', email: 'john@test.com', permissions }, can },
+            })
+        }
+
+        it('checks the default permissions array', () => {
+            withPermissions(['posts.create', 42, 'users.view'])
+
+            const { result } = withSetup(() => useAuth())
+
+            expect(result.can('posts.create')).toBe(true)
+            expect(result.can('posts.delete')).toBe(false)
+        })
+
+        it('matches wildcard permissions', () => {
+            withPermissions(['posts.*', 'reports.*.export'])
+
+            const { result } = withSetup(() => useAuth())
+
+            expect(result.can('posts.edit')).toBe(true)
+            expect(result.can('posts.comments.delete')).toBe(true)
+            expect(result.can('reports.sales.export')).toBe(true)
+            expect(result.can('reports.sales.view')).toBe(false)
+            expect(result.can('postsx')).toBe(false)
+        })
+
+        it('treats a bare * as every ability', () => {
+            withPermissions(['*'])
+
+            const { result } = withSetup(() => useAuth())
+
+            expect(result.can('anything.at.all')).toBe(true)
+        })
+
+        it('prefers the shared auth.can map', () => {
+            withPermissions(['posts.*'], { 'posts.delete': false, 'billing.manage': true })
+
+            const { result } = withSetup(() => useAuth())
+
+            expect(result.can('posts.delete')).toBe(false)
+            expect(result.can('posts.edit')).toBe(true)
+            expect(result.can('billing.manage')).toBe(true)
+        })
+
+        it('honours the shared map for guests', () => {
+            Object.assign(mockProps, { auth: { user: null, can: { 'posts.view': true } } })
+
+            const { result } = withSetup(() => useAuth())
+
+            expect(result.can('posts.view')).toBe(true)
+            expect(result.can('posts.create')).toBe(false)
+        })
+
+        it('checks canAny and canAll', () => {
+            withPermissions(['posts.view', 'posts.create'])
+
+            const { result } = withSetup(() => useAuth())
+
+            expect(result.canAny('posts.delete', 'posts.create')).toBe(true)
+            expect(result.canAny('posts.delete', 'users.view')).toBe(false)
+            expect(result.canAll('posts.view', 'posts.create')).toBe(true)
+            expect(result.canAll('posts.view', 'posts.delete')).toBe(false)
+        })
+
+        it('accepts a custom resolvePermissions function', () => {
+            interface CustomUser {
+                id: number
+                name: string
+                email: string
+                abilities: Array<{ name: string }>
+            }
+
+            Object.assign(mockProps, {
+                auth: {
+                    user: { id: 1, name: 'John', email: 'john@test.com', abilities: [{ name: 'users.*' }] },
+                },
+            })
+
+            const { result } = withSetup(() =>
+                useAuth<CustomUser>({
+                    resolvePermissions: (user) => user.abilities.map((a) => a.name),
+                }),
+            )
+
+            expect(result.can('users.delete')).toBe(true)
+            expect(result.can('posts.delete')).toBe(false)
+        })
+
+        it('reacts to shared data changes', () => {
+            withPermissions([], { 'posts.create': false })
+
+            const { result } = withSetup(() => useAuth())
+            expect(result.can('posts.create')).toBe(false)
+
+            mockProps.auth.can = { 'posts.create': true }
+            expect(result.can('posts.create')).toBe(true)
+        })
+    })
+
+    describe('per-model abilities', () => {
+        interface Post {
+            id: number
+            user_id: number
+            type?: string
+            can?: { update?: boolean; delete?: boolean }
+        }
+
+        beforeEach(() => {
+            Object.assign(mockProps, {
+                auth: { user: { id: 1, name: 'John', email: 'john@test.com' } },
+            })
+        })
+
+        it('reads the model\'s own can map', () => {
+            const { result } = withSetup(() => useAuth())
+            const post: Post = { id: 1, user_id: 2, can: { update: true, delete: false } }
+
+            expect(result.canOn(post, 'update')).toBe(true)
+            expect(result.canOn(post, 'delete')).toBe(false)
+        })
+
+        it('returns false for missing models and unknown abilities', () => {
+            const { result } = withSetup(() => useAuth())
+
+            expect(result.canOn(null, 'update')).toBe(false)
+            expect(result.canOn({ id: 1, user_id: 1 } as Post, 'update')).toBe(false)
+        })
+
+        it('falls back to a registered policy for the given type', () => {
+            const remove = definePolicies({
+                post: {
+                    update: (user, post: Post) => user?.id === post.user_id,
+                },
+            })
+
+            const { result } = withSetup(() => useAuth())
+
+            expect(result.canOn({ id: 1, user_id: 1 } as Post, 'update', 'post')).toBe(true)
+            expect(result.canOn({ id: 2, user_id: 2 } as Post, 'update', 'post')).toBe(false)
+            expect(result.canOn({ id: 1, user_id: 1 } as Post, 'delete', 'post')).toBe(false)
+
+            remove()
+
+            expect(result.canOn({ id: 1, user_id: 1 } as Post, 'update', 'post')).toBe(false)
+        })
+
+        it('prefers the model\'s can map over the policy', () => {
+            const remove = definePolicies({ post: { update: () => true } })
+
+            const { result } = withSetup(() => useAuth())
+
+            expect(result.canOn({ id: 1, user_id: 1, can: { update: false } } as Post, 'update', 'post')).toBe(false)
+            expect(result.canOn({ id: 1, user_id: 1, can: {} } as Post, 'update', 'post')).toBe(true)
+
+            remove()
+        })
+
+        it('resolves the model type with resolveModelType', () => {
+            const remove = definePolicies({ article: { delete: () => true } })
+
+            const { result } = withSetup(() =>
+                useAuth({ resolveModelType: (model) => (model as Post).type }),
+            )
+
+            expect(result.canOn({ id: 1, user_id: 1, type: 'article' } as Post, 'delete')).toBe(true)
+            expect(result.canOn({ id: 1, user_id: 1, type: 'video' } as Post, 'delete')).toBe(false)
+
+            remove()
+        })
+
+        it('passes null to policies for guests', () => {
+            Object.assign(mockProps, { auth: { user: null } })
+            const remove = definePolicies({ post: { view: (user) => user === null } })
+
+            const { result } = withSetup(() => useAuth())
+
+            expect(result.canOn({ id: 1, user_id: 1 } as Post, 'view' as 'update', 'post')).toBe(true)
+
+            remove()
+        })
+    })
+
+    describe('session state', () => {
+        const admin = { id: 1, name: 'Support', email: 'support@test.com' }
+        const customer = { id: 2, name: 'Customer', email: 'customer@test.com', email_verified_at: null }
+
+        it('exposes the impersonator', () => {
+            Object.assign(mockProps, { auth: { user: customer, impersonator: admin } })
+
+            const { result } = withSetup(() => useAuth())
+
+            expect(result.impersonator.value).toEqual(admin)
+            expect(result.isImpersonating.value).toBe(true)
+        })
+
+        it('is not impersonating without an impersonator', () => {
+            Object.assign(mockProps, { auth: { user: customer } })
+
+            const { result } = withSetup(() => useAuth())
+
+            expect(result.impersonator.value).toBeNull()
+            expect(result.isImpersonating.value).toBe(false)
+        })
+
+        it('honours an explicit impersonating flag', () => {
+            Object.assign(mockProps, { auth: { user: customer, impersonating: true } })
+
+            const { result } = withSetup(() => useAuth())
+
+            expect(result.isImpersonating.value).toBe(true)
+            expect(result.impersonator.value).toBeNull()
+        })
+
+        it('stops impersonating with a visit to the leave route', () => {
+            Object.assign(mockProps, { auth: { user: customer, impersonator: admin } })
+
+            const { result } = withSetup(() => useAuth())
+            result.stopImpersonating()
+
+            expect(mockVisit).toHaveBeenCalledWith('/impersonate/leave', { method: 'get' })
+        })
+
+        it('uses the configured leave route and method', () => {
+            Object.assign(mockProps, { auth: { user: customer, impersonator: admin } })
+
+            const { result } = withSetup(() =>
+                useAuth({ stopImpersonatingUrl: '/admin/impersonation', stopImpersonatingMethod: 'delete' }),
+            )
+            result.stopImpersonating()
+
+            expect(mockVisit).toHaveBeenCalledWith('/admin/impersonation', { method: 'delete' })
+        })
+
+        it('does nothing when not impersonating', () => {
+            Object.assign(mockProps, { auth: { user: customer } })
+
+            const { result } = withSetup(() => useAuth())
+            result.stopImpersonating()
+
+            expect(mockVisit).not.toHaveBeenCalled()
+        })
+
+        it('reads email verification from the user', () => {
+            Object.assign(mockProps, { auth: { user: customer } })
+
+            const { result } = withSetup(() => useAuth())
+            expect(result.isVerified.value).toBe(false)
+
+            mockProps.auth.user = { ...customer, email_verified_at: '2026-01-01T00:00:00Z' }
+            expect(result.isVerified.value).toBe(true)
+        })
+
+        it('is not verified as a guest', () => {
+            Object.assign(mockProps, { auth: { user: null } })
+
+            const { result } = withSetup(() => useAuth())
+
+            expect(result.isVerified.value).toBe(false)
+        })
+
+        it('reads the two-factor requirement from shared data', () => {
+            Object.assign(mockProps, { auth: { user: customer, requiresTwoFactor: true } })
+
+            const { result } = withSetup(() => useAuth())
+            expect(result.requiresTwoFactor.value).toBe(true)
+
+            mockProps.auth.requiresTwoFactor = false
+            expect(result.requiresTwoFactor.value).toBe(false)
+        })
+    })
 })
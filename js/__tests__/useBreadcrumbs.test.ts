@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
-import { reactive } from 'vue'
+import { defineComponent, h, nextTick, reactive, ref } from 'vue'
+import { mount } from '@vue/test-utils'
 import { withSetup } from './helpers'
 
 const mockProps = reactive<Record<string, any>>({})
@@ -10,6 +11,7 @@ vi.mock('@inertiajs/vue3', () => ({
 }))
 
 import { useBreadcrumbs } from '../composables/useBreadcrumbs'
+import type { CollapsedBreadcrumb } from '../types'
 
 beforeEach(() => {
     Object.keys(mockProps).forEach((key) => delete mockProps[key])
@@ -67,4 +69,266 @@ describe('useBreadcrumbs', () => {
 
         expect(result.crumbs.value).toEqual([])
     })
+
+    describe('client-side changes', () => {
+        beforeEach(() => {
+            Object.assign(mockProps, {
+                breadcrumbs: [
+                    { label: 'Home', url: '/' },
+                    { label: 'Orders', url: '/orders' },
+                    { label: 'Order', url: null },
+                ],
+            })
+        })
+
+        const labels = (crumbs: { label: string }[]): string[] => crumbs.map((crumb) => crumb.label)
+
+        it('appends crumbs', () => {
+            const { result } = withSetup(() => useBreadcrumbs())
+
+            result.push({ label: 'Items', url: '/orders/1/items' }, { label: 'Edit', url: null })
+
+            expect(labels(result.crumbs.value)).toEqual(['Home', 'Orders', 'Order', 'Items', 'Edit'])
+        })
+
+        it('replaces the last crumb with reactive state', async () => {
+            const title = ref<string | null>(null)
+            const { result } = withSetup(() => useBreadcrumbs())
+
+            result.replaceLast(() => ({ label: title.value ?? 'Loading…', url: null }))
+            expect(labels(result.crumbs.value)).toEqual(['Home', 'Orders', 'Loading…'])
+
+            title.value = '#1042'
+            await nextTick()
+
+            expect(labels(result.crumbs.value)).toEqual(['Home', 'Orders', '#1042'])
+        })
+
+        it('replaces the whole trail', () => {
+            const { result } = withSetup(() => useBreadcrumbs())
+
+            result.setTrail([{ label: 'Dashboard', url: '/' }])
+
+            expect(labels(result.crumbs.value)).toEqual(['Dashboard'])
+        })
+
+        it('applies changes in the order they were made', () => {
+            const { result } = withSetup(() => useBreadcrumbs())
+
+            result.setTrail([{ label: 'Reports', url: '/reports' }])
+            result.push({ label: 'Sales', url: null })
+            result.replaceLast({ label: 'Sales (2024)', url: null })
+
+            expect(labels(result.crumbs.value)).toEqual(['Reports', 'Sales (2024)'])
+        })
+
+        it('follows the server trail underneath the changes', async () => {
+            const { result } = withSetup(() => useBreadcrumbs())
+
+            result.push({ label: 'Items', url: null })
+            mockProps.breadcrumbs = [{ label: 'Home', url: '/' }]
+            await nextTick()
+
+            expect(labels(result.crumbs.value)).toEqual(['Home', 'Items'])
+        })
+
+        it('reverts a single change or all of them', () => {
+            const { result } = withSetup(() => useBreadcrumbs())
+
+            const revert = result.push({ label: 'Items', url: null })
+            result.push({ label: 'Edit', url: null })
+
+            revert()
+            expect(labels(result.crumbs.value)).toEqual(['Home', 'Orders', 'Order', 'Edit'])
+
+            result.reset()
+            expect(labels(result.crumbs.value)).toEqual(['Home', 'Orders', 'Order'])
+        })
+
+        it('shares changes across the app and reverts them when the component unmounts', async () => {
+            const showModal = ref(true)
+            let trail!: ReturnType<typeof useBreadcrumbs>
+
+            const Modal = defineComponent({
+                setup() {
+                    useBreadcrumbs().replaceLast({ label: '#1042', url: null })
+                    return () => h('div')
+                },
+            })
+
+            mount(defineComponent({
+                setup() {
+                    trail = useBreadcrumbs()
+                    return () => h('div', showModal.value ? [h(Modal)] : [])
+                },
+            }))
+
+            expect(labels(trail.crumbs.value)).toEqual(['Home', 'Orders', '#1042'])
+
+            showModal.value = false
+            await nextTick()
+
+            expect(labels(trail.crumbs.value)).toEqual(['Home', 'Orders', 'Order'])
+        })
+    })
+
+    describe('current crumb', () => {
+        it('passes icon and meta through', () => {
+            Object.assign(mockProps, {
+                breadcrumbs: [{ label: 'Home', url: '/', icon: 'home', meta: { badge: 3 } }],
+            })
+
+            const { result } = withSetup(() => useBreadcrumbs())
+
+            expect(result.crumbs.value[0]).toEqual({ label: 'Home', url: '/', icon: 'home', meta: { badge: 3 } })
+        })
+
+        it('defaults to the last crumb', () => {
+            Object.assign(mockProps, {
+                breadcrumbs: [{ label: 'Home', url: '/' }, { label: 'Users', url: null }],
+            })
+
+            const { result } = withSetup(() => useBreadcrumbs())
+
+            expect(result.current.value?.label).toBe('Users')
+        })
+
+        it('uses the crumb flagged as current', () => {
+            Object.assign(mockProps, {
+                breadcrumbs: [
+                    { label: 'Users', url: '/users', current: true },
+                    { label: 'Filtered', url: null },
+                ],
+            })
+
+            const { result } = withSetup(() => useBreadcrumbs())
+
+            expect(result.current.value?.label).toBe('Users')
+        })
+
+        it('has no current crumb when the last one opts out', () => {
+            Object.assign(mockProps, {
+                breadcrumbs: [{ label: 'Docs', url: '/docs', current: false }],
+            })
+
+            const { result } = withSetup(() => useBreadcrumbs())
+
+            expect(result.current.value).toBeNull()
+        })
+    })
+
+    describe('collapsed', () => {
+        beforeEach(() => {
+            Object.assign(mockProps, {
+                breadcrumbs: ['Home', 'Admin', 'Billing', 'Invoices', '#1042'].map((label) => ({ label, url: null })),
+            })
+        })
+
+        const describeEntries = (entries: CollapsedBreadcrumb[]): string[] => {
+            return entries.map((entry) => (entry.type === 'crumb' ? entry.label : `…${entry.items.length}`))
+        }
+
+        it('shows the whole trail by default', () => {
+            const { result } = withSetup(() => useBreadcrumbs())
+
+            expect(describeEntries(result.collapsed.value)).toEqual(['Home', 'Admin', 'Billing', 'Invoices', '#1042'])
+        })
+
+        it('keeps the first and last crumbs around an ellipsis group', () => {
+            const { result } = withSetup(() => useBreadcrumbs({ maxVisible: 3 }))
+
+            expect(describeEntries(result.collapsed.value)).toEqual(['Home', '…2', 'Invoices', '#1042'])
+
+            const ellipsis = result.collapsed.value[1]
+            expect(ellipsis.type === 'ellipsis' && ellipsis.items.map((crumb) => crumb.label)).toEqual(['Admin', 'Billing'])
+        })
+
+        it('keeps more leading crumbs when asked to', () => {
+            const { result } = withSetup(() => useBreadcrumbs({ maxVisible: 3, keepFirst: 2 }))
+
+            expect(describeEntries(result.collapsed.value)).toEqual(['Home', 'Admin', '…2', '#1042'])
+        })
+
+        it('always keeps the last crumb', () => {
+            const { result } = withSetup(() => useBreadcrumbs({ maxVisible: 1 }))
+
+            expect(describeEntries(result.collapsed.value)).toEqual(['…4', '#1042'])
+        })
+
+        it('follows a reactive limit', async () => {
+            const maxVisible = ref(10)
+            const { result } = withSetup(() => useBreadcrumbs({ maxVisible }))
+
+            expect(result.collapsed.value).toHaveLength(5)
+
+            maxVisible.value = 2
+            await nextTick()
+
+            expect(describeEntries(result.collapsed.value)).toEqual(['Home', '…3', '#1042'])
+        })
+    })
+
+    describe('structured data and titles', () => {
+        beforeEach(() => {
+            Object.assign(mockProps, {
+                breadcrumbs: [
+                    { label: 'Home', url: '/' },
+                    { label: 'Invoices', url: 'https://shop.test/invoices' },
+                    { label: 'Invoice #1042', url: null },
+                ],
+            })
+        })
+
+        it('describes the trail as a BreadcrumbList', () => {
+            const { result } = withSetup(() => useBreadcrumbs())
+
+            expect(result.jsonLd.value).toEqual({
+                '@context': 'https://schema.org',
+                '@type': 'BreadcrumbList',
+                itemListElement: [
+                    { '@type': 'ListItem', position: 1, name: 'Home', item: '/' },
+                    { '@type': 'ListItem', position: 2, name: 'Invoices', item: 'https://shop.test/invoices' },
+                    { '@type': 'ListItem', position: 3, name: 'Invoice #1042' },
+                ],
+            })
+        })
+
+        it('resolves relative URLs against an explicit origin', () => {
+            const { result } = withSetup(() => useBreadcrumbs({ origin: 'https://example.com' }))
+
+            expect(result.jsonLd.value.itemListElement[0].item).toBe('https://example.com/')
+        })
+
+        it('serializes the structured data safely for a script tag', () => {
+            mockProps.breadcrumbs = [{ label: '</script><script>alert(1)', url: null }]
+
+            const { result } = withSetup(() => useBreadcrumbs())
+
+            expect(result.jsonLdScript.value).not.toContain('</script>')
+            expect(JSON.parse(result.jsonLdScript.value).itemListElement[0].name).toBe('</script><script>alert(1)')
+        })
+
+        it('builds a title with the current page first', () => {
+            const { result } = withSetup(() => useBreadcrumbs())
+
+            expect(result.title().value).toBe('Invoice #1042 | Invoices | Home')
+        })
+
+        it('builds a title with a custom separator, order and depth', () => {
+            const { result } = withSetup(() => useBreadcrumbs())
+
+            expect(result.title({ separator: ' › ', order: 'natural' }).value).toBe('Home › Invoices › Invoice #1042')
+            expect(result.title({ depth: 2 }).value).toBe('Invoice #1042 | Invoices')
+        })
+
+        it('follows client-side changes', () => {
+            const { result } = withSetup(() => useBreadcrumbs())
+            const title = result.title({ depth: 1 })
+
+            result.replaceLast({ label: 'Invoice #2001', url: null })
+
+            expect(title.value).toBe('Invoice #2001')
+            expect(result.jsonLd.value.itemListElement[2].name).toBe('Invoice #2001')
+        })
+    })
 })
@@ -0,0 +1,386 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { reactive, ref, nextTick } from 'vue'
+import { withSetup } from './helpers'
+
+const { mockVisit } = vi.hoisted(() => ({ mockVisit: vi.fn() }))
+
+vi.mock('@inertiajs/vue3', () => ({
+    usePage: () => ({ props: {} }),
+    router: { visit: mockVisit },
+}))
+
+import { useDataTable } from '../composables/useDataTable'
+import type { InertiaPage, CursorPage, SortState } from '../types'
+
+interface User {
+    id: number
+    name: string
+}
+
+function makePaginator(page = 1, lastPage = 5, perPage = 15): InertiaPage<User> {
+    return {
+        data: [{ id: page, name: `User ${page}` }],
+        current_page: page,
+        last_page: lastPage,
+        per_page: perPage,
+        total: lastPage * perPage,
+        from: (page - 1) * perPage + 1,
+        to: page * perPage,
+        links: [
+            { url: null, label: '&laquo; Previous', active: false },
+            ...Array.from({ length: lastPage }, (_, i) => ({
+                url: `http://localhost/users?page=${i + 1}`,
+                label: String(i + 1),
+                active: i + 1 === page,
+            })),
+            { url: null, label: 'Next &raquo;', active: false },
+        ],
+    }
+}
+
+function makeCursorPaginator(next: string | null, prev: string | null = null): CursorPage<User> {
+    return {
+        data: [{ id: 1, name: 'User 1' }],
+        path: 'http://localhost/users',
+        per_page: 15,
+        next_cursor: next,
+        prev_cursor: prev,
+        next_page_url: next ? `http://localhost/users?cursor=${next}` : null,
+        prev_page_url: prev ? `http://localhost/users?cursor=${prev}` : null,
+    }
+}
+
+const setLocation = (url: string): void => {
+    Object.defineProperty(window, 'location', { value: new URL(url), writable: true })
+}
+
+const visitedUrls = (): string[] => mockVisit.mock.calls.map((call) => decodeURIComponent(call[0] as string))
+
+beforeEach(() => {
+    vi.useFakeTimers()
+    mockVisit.mockReset()
+    setLocation('http://localhost/users')
+})
+
+afterEach(() => {
+    vi.useRealTimers()
+})
+
+describe('useDataTable', () => {
+    it('exposes items and pagination state', () => {
+        const { result } = withSetup(() => useDataTable(() => makePaginator(2)))
+
+        expect(result.items.value).toEqual([{ id: 2, name: 'User 2' }])
+        expect(result.meta.value.currentPage).toBe(2)
+        expect(result.hasPrev.value).toBe(true)
+        expect(result.pages.value).toEqual([1, 2, 3, 4, 5])
+    })
+
+    it('resets the page when a filter changes', () => {
+        setLocation('http://localhost/users?page=3&sort=name&direction=asc')
+
+        const { result } = withSetup(() =>
+            useDataTable(() => makePaginator(3), {
+                filters: () => ({ search: '', status: '' }),
+                sort: () => ({ field: 'name', direction: 'asc' as const }),
+            }),
+        )
+
+        result.update('status', 'active')
+
+        expect(visitedUrls()).toEqual(['/users?status=active&sort=name&direction=asc'])
+    })
+
+    it('resets the page when the sort changes', () => {
+        setLocation('http://localhost/users?page=3&search=jo')
+
+        const { result } = withSetup(() =>
+            useDataTable(() => makePaginator(3), { filters: () => ({ search: 'jo' }) }),
+        )
+
+        result.sortBy('name')
+
+        expect(visitedUrls()).toEqual(['/users?search=jo&sort=name&direction=asc'])
+    })
+
+    it('keeps filters echoed back by the server when paging', () => {
+        setLocation('http://localhost/users?search=bob&sort=name&direction=asc&page=2')
+
+        const { result } = withSetup(() =>
+            useDataTable(() => makePaginator(2), {
+                filters: () => ({ search: 'bob', status: '' }),
+                sort: () => ({ field: 'name', direction: 'asc' as const }),
+            }),
+        )
+
+        expect(result.activeCount.value).toBe(1)
+
+        result.goToPage(3)
+
+        expect(visitedUrls()).toEqual(['/users?search=bob&sort=name&direction=asc&page=3'])
+    })
+
+    it('keeps filters and sort when changing page', () => {
+        const filters = { search: '' }
+        const { result } = withSetup(() =>
+            useDataTable(() => makePaginator(1), {
+                filters: () => filters,
+                sort: () => ({ field: 'name', direction: 'desc' as const }),
+            }),
+        )
+
+        result.values.search = 'jo'
+        mockVisit.mockClear()
+
+        result.goToPage(2)
+
+        expect(visitedUrls()).toEqual(['/users?search=jo&sort=name&direction=desc&page=2'])
+    })
+
+    it('sends a pending debounced filter along with a sort change', () => {
+        const { result } = withSetup(() =>
+            useDataTable(() => makePaginator(1), {
+                filters: () => ({ search: '' }),
+                debounce: { search: 300 },
+            }),
+        )
+
+        result.update('search', 'jo')
+        result.sortBy('name')
+        vi.advanceTimersByTime(1000)
+
+        expect(visitedUrls()).toEqual(['/users?search=jo&sort=name&direction=asc'])
+    })
+
+    it('debounces filters per field', () => {
+        const { result } = withSetup(() =>
+            useDataTable(() => makePaginator(1), {
+                filters: () => ({ search: '' }),
+                debounce: { search: 300 },
+            }),
+        )
+
+        result.values.search = 'j'
+        result.values.search = 'jo'
+        expect(mockVisit).not.toHaveBeenCalled()
+
+        vi.advanceTimersByTime(300)
+
+        expect(visitedUrls()).toEqual(['/users?search=jo'])
+    })
+
+    it('cycles multi-column sorts', () => {
+        const { result } = withSetup(() =>
+            useDataTable(() => makePaginator(1), {
+                sort: () => [{ field: 'status', direction: 'asc' }] as SortState[],
+                multiple: true,
+            }),
+        )
+
+        result.sortBy('created_at', true)
+
+        expect(visitedUrls()).toEqual(['/users?sort=status,created_at'])
+        expect(result.sortIndex('created_at')).toBe(2)
+    })
+
+    it('reads the sort from the URL when none is given', () => {
+        setLocation('http://localhost/users?sort=email&direction=desc')
+
+        const { result } = withSetup(() => useDataTable(() => makePaginator(1)))
+
+        expect(result.directionOf('email')).toBe('desc')
+    })
+
+    it('keeps per_page and unrelated params', () => {
+        setLocation('http://localhost/users?per_page=50&tab=archived')
+
+        const { result } = withSetup(() =>
+            useDataTable(() => makePaginator(1, 5, 50), { filters: () => ({ search: '' }) }),
+        )
+
+        result.update('search', 'jo')
+
+        expect(visitedUrls()).toEqual(['/users?tab=archived&search=jo&per_page=50'])
+    })
+
+    it('changes per page and goes back to page 1', () => {
+        setLocation('http://localhost/users?page=4')
+
+        const { result } = withSetup(() => useDataTable(() => makePaginator(4)))
+
+        result.updatePerPage(100)
+
+        expect(visitedUrls()).toEqual(['/users?per_page=100'])
+    })
+
+    it('follows the page returned by the server', async () => {
+        const paginator = ref(makePaginator(1))
+        const { result } = withSetup(() =>
+            useDataTable(() => paginator.value, { filters: () => ({ search: '' }) }),
+        )
+
+        paginator.value = makePaginator(3)
+        await nextTick()
+
+        result.nextPage()
+
+        expect(visitedUrls()).toEqual(['/users?page=4'])
+    })
+
+    it('navigates cursor paginators with the cursor param', () => {
+        const { result } = withSetup(() =>
+            useDataTable(() => makeCursorPaginator('abc'), { filters: () => ({ search: '' }) }),
+        )
+
+        result.nextPage()
+
+        expect(visitedUrls()).toEqual(['/users?cursor=abc'])
+        expect('goToPage' in result).toBe(false)
+    })
+
+    it('nests filters under a namespace', () => {
+        const { result } = withSetup(() =>
+            useDataTable(() => makePaginator(1), {
+                filters: () => ({ search: '' }),
+                namespace: 'filter',
+            }),
+        )
+
+        result.update('search', 'jo')
+
+        expect(visitedUrls()).toEqual(['/users?filter[search]=jo'])
+    })
+
+    it('resets filters with one visit', () => {
+        setLocation('http://localhost/users?search=jo&status=active&page=2')
+
+        const { result } = withSetup(() =>
+            useDataTable(() => makePaginator(2), {
+                filters: () => ({ search: 'jo', status: 'active' }),
+                debounce: { search: 300 },
+            }),
+        )
+
+        result.update('search', 'john')
+        result.updateMany({ search: '', status: '' })
+        vi.advanceTimersByTime(1000)
+
+        expect(result.isDirty.value).toBe(false)
+        expect(visitedUrls()).toEqual(['/users'])
+    })
+
+    it('tracks dirty state and active filters', () => {
+        const { result } = withSetup(() =>
+            useDataTable(() => makePaginator(1), { filters: () => ({ search: '', status: '' }) }),
+        )
+
+        expect(result.isDirty.value).toBe(false)
+
+        result.update('status', 'active')
+
+        expect(result.isDirty.value).toBe(true)
+        expect(result.activeCount.value).toBe(1)
+    })
+
+    it('validates filters against a schema before visiting', () => {
+        const { result } = withSetup(() =>
+            useDataTable(() => makePaginator(1), {
+                filters: () => ({ min_price: null as number | null }),
+                schema: { min_price: { type: 'number', min: 0 } },
+            }),
+        )
+
+        result.update('min_price', -5)
+
+        expect(result.errors.value).toEqual({ min_price: 'Must be at least 0.' })
+        expect(result.isValid.value).toBe(false)
+        expect(mockVisit).not.toHaveBeenCalled()
+
+        result.update('min_price', 10)
+
+        expect(visitedUrls()).toEqual(['/users?min_price=10'])
+    })
+
+    it('replaces history for filter changes and pushes it for sort and page changes', () => {
+        const { result } = withSetup(() =>
+            useDataTable(() => makePaginator(1), { filters: () => ({ search: '' }) }),
+        )
+
+        result.update('search', 'jo')
+        result.sortBy('name')
+        result.goToPage(2)
+
+        expect(mockVisit.mock.calls.map((call) => call[1].replace)).toEqual([true, false, false])
+    })
+
+    it('uses an explicit replace option for every visit', () => {
+        const { result } = withSetup(() =>
+            useDataTable(() => makePaginator(1), { filters: () => ({ search: '' }), replace: false }),
+        )
+
+        result.update('search', 'jo')
+
+        expect(mockVisit.mock.calls[0][1].replace).toBe(false)
+    })
+
+    it('re-syncs filters from props', async () => {
+        const filters = reactive({ search: '' })
+        const { result } = withSetup(() => useDataTable(() => makePaginator(1), { filters: () => ({ ...filters }) }))
+
+        filters.search = 'from server'
+        await nextTick()
+
+        expect(result.values.search).toBe('from server')
+    })
+
+    it('describes columns with their sort and filter state', () => {
+        const { result } = withSetup(() =>
+            useDataTable(() => makePaginator(1), {
+                filters: () => ({ status: '' }),
+                sort: () => ({ field: 'created_at', direction: 'desc' as const }),
+                columns: [
+                    { key: 'name', sortable: true },
+                    { key: 'status', filterable: true },
+                    { key: 'created_at', label: 'Joined', sortable: true },
+                    { key: 'team.name', sortable: 'team_name', filterable: 'team' },
+                ],
+            }),
+        )
+
+        expect(result.columns.value).toEqual([
+            {
+                key: 'name', label: 'Name', sortable: true, sortField: 'name',
+                filterable: false, filterKey: null, direction: null, sortIndex: null,
+            },
+            {
+                key: 'status', label: 'Status', sortable: false, sortField: null,
+                filterable: true, filterKey: 'status', direction: null, sortIndex: null,
+            },
+            {
+                key: 'created_at', label: 'Joined', sortable: true, sortField: 'created_at',
+                filterable: false, filterKey: null, direction: 'desc', sortIndex: 1,
+            },
+            {
+                key: 'team.name', label: 'Team name', sortable: true, sortField: 'team_name',
+                filterable: false, filterKey: 'team', direction: null, sortIndex: null,
+            },
+        ])
+    })
+
+    it('cancels the in-flight request when a newer change arrives', () => {
+        const cancels: Array<ReturnType<typeof vi.fn>> = []
+        mockVisit.mockImplementation((_url: string, options: { onCancelToken: (token: { cancel: () => void }) => void }) => {
+            const cancel = vi.fn()
+            cancels.push(cancel)
+            options.onCancelToken({ cancel })
+        })
+
+        const { result } = withSetup(() => useDataTable(() => makePaginator(1)))
+
+        result.goToPage(2)
+        result.sortBy('name')
+
+        expect(cancels[0]).toHaveBeenCalledOnce()
+        expect(visitedUrls()).toEqual(['/users?page=2', '/users?sort=name&direction=asc'])
+    })
+})
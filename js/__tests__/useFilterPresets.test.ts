@@ -0,0 +1,213 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { reactive, nextTick } from 'vue'
+import { withSetup } from './helpers'
+
+const { mockVisit } = vi.hoisted(() => ({ mockVisit: vi.fn() }))
+
+vi.mock('@inertiajs/vue3', () => ({
+    usePage: () => ({ props: {} }),
+    router: { visit: mockVisit },
+}))
+
+import { useFilterPresets } from '../composables/useFilterPresets'
+import { createHttpPresetStorage } from '../stores/presets'
+import type { FilterPreset, FilterPresetStorage } from '../types'
+
+interface Filters {
+    search: string
+    status: string[]
+}
+
+const makeFilters = (values: Filters = { search: '', status: [] }) => {
+    const state = reactive({ ...values })
+    return {
+        values: state,
+        updateMany: vi.fn((updates: Partial<Filters>) => Object.assign(state, updates)),
+    }
+}
+
+const flushPromises = (): Promise<void> => new Promise((resolve) => setTimeout(resolve))
+
+beforeEach(() => {
+    localStorage.clear()
+    Object.defineProperty(window, 'location', { value: new URL('http://localhost/reports'), writable: true })
+})
+
+describe('useFilterPresets', () => {
+    it('saves the current values to localStorage, scoped to the page', async () => {
+        const filters = makeFilters({ search: 'late', status: ['open'] })
+        const { result } = withSetup(() => useFilterPresets(filters))
+
+        await result.savePreset('Late orders')
+
+        expect(JSON.parse(localStorage.getItem('filter-presets:/reports') ?? '')).toEqual([
+            { name: 'Late orders', values: { search: 'late', status: ['open'] } },
+        ])
+        expect(result.presets.value.map((p) => p.name)).toEqual(['Late orders'])
+    })
+
+    it('loads presets saved earlier', () => {
+        localStorage.setItem('filter-presets:/reports', JSON.stringify([{ name: 'Open', values: { status: ['open'] } }]))
+
+        const { result } = withSetup(() => useFilterPresets(makeFilters()))
+
+        expect(result.presets.value).toEqual([{ name: 'Open', values: { status: ['open'] }, active: false }])
+    })
+
+    it('uses an explicit scope', async () => {
+        const { result } = withSetup(() => useFilterPresets(makeFilters(), { scope: 'orders' }))
+
+        await result.savePreset('Everything')
+
+        expect(localStorage.getItem('filter-presets:orders')).not.toBeNull()
+    })
+
+    it('replaces a preset with the same name', async () => {
+        const filters = makeFilters()
+        const { result } = withSetup(() => useFilterPresets(filters))
+
+        await result.savePreset('Mine')
+        filters.values.search = 'me'
+        await result.savePreset(' Mine ')
+
+        expect(result.presets.value).toEqual([{ name: 'Mine', values: { search: 'me', status: [] }, active: true }])
+    })
+
+    it('applies a preset through the filters', () => {
+        localStorage.setItem('filter-presets:/reports', JSON.stringify([{ name: 'Open', values: { search: '', status: ['open'] } }]))
+
+        const filters = makeFilters({ search: 'x', status: [] })
+        const { result } = withSetup(() => useFilterPresets(filters))
+
+        result.applyPreset('Open')
+        result.applyPreset('Missing')
+
+        expect(filters.updateMany).toHaveBeenCalledOnce()
+        expect(filters.values).toEqual({ search: '', status: ['open'] })
+    })
+
+    it('marks the preset matching the current values', async () => {
+        const filters = makeFilters()
+        const { result } = withSetup(() => useFilterPresets(filters))
+
+        filters.values.status = ['open']
+        await result.savePreset('Open')
+        filters.values.status = ['closed']
+        await result.savePreset('Closed')
+
+        expect(result.activePreset.value?.name).toBe('Closed')
+
+        filters.values.status = ['open']
+        await nextTick()
+
+        expect(result.presets.value.map((p) => p.active)).toEqual([true, false])
+
+        filters.values.search = 'x'
+        expect(result.activePreset.value).toBeNull()
+    })
+
+    it('ignores filters added after the preset was saved while they are empty', () => {
+        localStorage.setItem('filter-presets:/reports', JSON.stringify([{ name: 'Open', values: { status: ['open'] } }]))
+
+        const filters = makeFilters({ search: '', status: ['open'] })
+        const { result } = withSetup(() => useFilterPresets(filters))
+
+        expect(result.activePreset.value?.name).toBe('Open')
+    })
+
+    it('deletes presets', async () => {
+        const { result } = withSetup(() => useFilterPresets(makeFilters()))
+
+        await result.savePreset('A')
+        await result.savePreset('B')
+        await result.deletePreset('A')
+
+        expect(result.presets.value.map((p) => p.name)).toEqual(['B'])
+        expect(JSON.parse(localStorage.getItem('filter-presets:/reports') ?? '')).toHaveLength(1)
+    })
+
+    it('works with asynchronous storage', async () => {
+        const storage: FilterPresetStorage = {
+            load: vi.fn(async (): Promise<FilterPreset[]> => [{ name: 'Remote', values: { search: 'r' } }]),
+            save: vi.fn(async () => {}),
+            delete: vi.fn(async () => {}),
+        }
+
+        const { result } = withSetup(() => useFilterPresets(makeFilters(), { storage }))
+
+        expect(result.isLoading.value).toBe(true)
+        await flushPromises()
+
+        expect(result.isLoading.value).toBe(false)
+        expect(result.presets.value.map((p) => p.name)).toEqual(['Remote'])
+
+        await result.savePreset('Local')
+
+        expect(storage.save).toHaveBeenCalledWith('/reports', { name: 'Local', values: { search: '', status: [] } })
+    })
+
+    it('keeps the list unchanged when saving fails', async () => {
+        const storage: FilterPresetStorage = {
+            load: () => [],
+            save: () => Promise.reject(new Error('offline')),
+            delete: () => {},
+        }
+
+        const { result } = withSetup(() => useFilterPresets(makeFilters(), { storage }))
+
+        await expect(result.savePreset('Nope')).rejects.toThrow('offline')
+        expect(result.presets.value).toEqual([])
+    })
+})
+
+describe('createHttpPresetStorage', () => {
+    const mockFetch = vi.fn()
+
+    beforeEach(() => {
+        mockFetch.mockReset()
+        mockFetch.mockResolvedValue(new Response(JSON.stringify({ data: [{ name: 'A', values: {} }] }), { status: 200 }))
+        vi.stubGlobal('fetch', mockFetch)
+        document.cookie = 'XSRF-TOKEN=abc%3D'
+    })
+
+    afterEach(() => {
+        vi.unstubAllGlobals()
+    })
+
+    it('loads presets for a scope', async () => {
+        const storage = createHttpPresetStorage({ url: '/filter-presets' })
+
+        await expect(storage.load('/reports')).resolves.toEqual([{ name: 'A', values: {} }])
+        expect(mockFetch.mock.calls[0][0]).toBe('/filter-presets?scope=%2Freports')
+    })
+
+    it('posts presets with the CSRF token', async () => {
+        mockFetch.mockResolvedValue(new Response(null, { status: 204 }))
+        const storage = createHttpPresetStorage({ url: '/filter-presets' })
+
+        await storage.save('/reports', { name: 'A', values: { search: 'x' } })
+
+        const [url, init] = mockFetch.mock.calls[0]
+        expect(url).toBe('/filter-presets')
+        expect(init.method).toBe('POST')
+        expect(init.headers['X-XSRF-TOKEN']).toBe('abc=')
+        expect(JSON.parse(init.body)).toEqual({ scope: '/reports', name: 'A', values: { search: 'x' } })
+    })
+
+    it('deletes presets', async () => {
+        mockFetch.mockResolvedValue(new Response(null, { status: 204 }))
+        const storage = createHttpPresetStorage({ url: '/filter-presets' })
+
+        await storage.delete('/reports', 'A')
+
+        expect(mockFetch.mock.calls[0][1].method).toBe('DELETE')
+        expect(JSON.parse(mockFetch.mock.calls[0][1].body)).toEqual({ scope: '/reports', name: 'A' })
+    })
+
+    it('rejects on error responses', async () => {
+        mockFetch.mockResolvedValue(new Response('', { status: 422 }))
+        const storage = createHttpPresetStorage({ url: '/filter-presets' })
+
+        await expect(storage.save('/reports', { name: 'A', values: {} })).rejects.toThrow('422')
+    })
+})
@@ -11,10 +11,15 @@ vi.mock('@inertiajs/vue3', () => ({
 }))
 
 import { useFilters } from '../composables/useFilters'
+import { resolveQuerySerializer } from '../utils/query'
 
 beforeEach(() => {
     vi.useFakeTimers()
     mockVisit.mockClear()
+    Object.defineProperty(window, 'location', {
+        value: new URL('http://localhost/items'),
+        writable: true,
+    })
 })
 
 afterEach(() => {
@@ -280,4 +285,535 @@ describe('useFilters', () => {
 
         expect(result.isDirty.value).toBe(true)
     })
+
+    describe('serialization', () => {
+        const visitedQuery = (): string => {
+            const url = mockVisit.mock.calls[0][0] as string
+            return decodeURIComponent(url.split('?')[1] ?? '')
+        }
+
+        beforeEach(() => {
+            Object.defineProperty(window, 'location', {
+                value: new URL('http://localhost/items'),
+                writable: true,
+            })
+        })
+
+        it('uses bracket notation for arrays and nested objects by default', () => {
+            const { result } = withSetup(() =>
+                useFilters(() => ({ status: [] as string[], filter: { price: { min: '' } } })),
+            )
+
+            result.updateMany({ status: ['a', 'b'], filter: { price: { min: '10' } } })
+
+            expect(visitedQuery()).toBe('status[]=a&status[]=b&filter[price][min]=10')
+        })
+
+        it('joins arrays with commas in comma mode', () => {
+            const { result } = withSetup(() =>
+                useFilters(() => ({ status: [] as string[] }), { serializer: 'comma' }),
+            )
+
+            result.update('status', ['a', 'b'])
+
+            expect(visitedQuery()).toBe('status=a,b')
+        })
+
+        it('JSON-encodes non-string values in json mode', () => {
+            const { result } = withSetup(() =>
+                useFilters(() => ({ status: [] as string[], active: false }), { serializer: 'json' }),
+            )
+
+            result.updateMany({ status: ['a'], active: true })
+
+            expect(visitedQuery()).toBe('status=["a"]&active=true')
+        })
+
+        it('accepts a custom serializer', () => {
+            const serialize = vi.fn(() => new URLSearchParams({ q: 'custom' }))
+
+            const { result } = withSetup(() =>
+                useFilters(() => ({ search: '' }), {
+                    serializer: { serialize, parse: () => ({}) },
+                }),
+            )
+
+            result.update('search', 'test')
+
+            expect(serialize).toHaveBeenCalledWith({ search: 'test' })
+            expect(visitedQuery()).toBe('q=custom')
+        })
+
+        it('serializes booleans as 1/0', () => {
+            const { result } = withSetup(() =>
+                useFilters(() => ({ active: null as boolean | null })),
+            )
+
+            result.update('active', false)
+
+            expect(visitedQuery()).toBe('active=0')
+        })
+
+        it('does not treat equal arrays as changed', () => {
+            const { result } = withSetup(() =>
+                useFilters(() => ({ status: ['a'], search: '' })),
+            )
+
+            expect(result.isDirty.value).toBe(false)
+
+            result.update('search', 'x')
+
+            expect(visitedQuery()).toBe('search=x')
+        })
+
+        it('coerces server values into declared types', async () => {
+            const defaults = reactive<Record<string, unknown>>({ page_size: '25', active: '1', status: 'a,b' })
+
+            const { result } = withSetup(() =>
+                useFilters(() => ({ ...defaults }), {
+                    types: { page_size: 'number', active: 'boolean', status: 'array' },
+                }),
+            )
+
+            expect(result.values.page_size).toBe(25)
+            expect(result.values.active).toBe(true)
+            expect(result.values.status).toEqual(['a', 'b'])
+            expect(result.isDirty.value).toBe(false)
+
+            defaults.active = '0'
+            await nextTick()
+
+            expect(result.values.active).toBe(false)
+        })
+
+        it('keeps echoed filters when another one changes, and resets them', () => {
+            Object.defineProperty(window, 'location', {
+                value: new URL('http://localhost/items?search=bob'),
+                writable: true,
+            })
+
+            const { result } = withSetup(() =>
+                useFilters(() => ({ search: 'bob', status: '' })),
+            )
+
+            result.update('status', 'active')
+            result.reset()
+
+            expect(visitedQuery()).toBe('search=bob&status=active')
+            expect(mockVisit.mock.calls[1][0]).toBe('/items')
+            expect(result.values).toEqual({ search: '', status: '' })
+        })
+
+        it('takes what the server echoes after a reset as the default', async () => {
+            Object.defineProperty(window, 'location', {
+                value: new URL('http://localhost/items?status=archived'),
+                writable: true,
+            })
+            const props = reactive({ status: 'archived' })
+
+            const { result } = withSetup(() => useFilters(() => ({ ...props })))
+
+            expect(result.isDirty.value).toBe(true)
+
+            result.reset()
+            expect(mockVisit.mock.calls[0][0]).toBe('/items')
+
+            // The server falls back to its own default
+            window.location = new URL('http://localhost/items') as unknown as Location
+            props.status = 'active'
+            await nextTick()
+
+            expect(result.values.status).toBe('active')
+            expect(result.isDirty.value).toBe(false)
+
+            result.update('status', 'archived')
+            expect(mockVisit.mock.calls[1][0]).toBe('/items?status=archived')
+
+            result.resetField('status')
+            expect(mockVisit.mock.calls[2][0]).toBe('/items')
+        })
+
+        it('reads filters the server did not echo back from the URL', () => {
+            Object.defineProperty(window, 'location', {
+                value: new URL('http://localhost/items?search=bob&status[]=a&status[]=b'),
+                writable: true,
+            })
+
+            const { result } = withSetup(() =>
+                useFilters(() => ({ search: '', status: [] as string[], role: 'admin' })),
+            )
+
+            expect(result.values).toEqual({ search: 'bob', status: ['a', 'b'], role: 'admin' })
+        })
+
+        it.each([
+            ['brackets', { rows: [{ a: '1' }, { a: '2' }], status: ['a', 'b'], filter: { price: { min: '10' } } }],
+            ['comma', { status: ['a', 'b,c'], search: 'Smith, John', filter: { price: { min: '10' } } }],
+            ['json', { search: '123', flag: 'true', quoted: '"x"', count: 5, active: true, status: ['a'] }],
+        ] as const)('parses back what it serializes in %s mode', (format, values) => {
+            const serializer = resolveQuerySerializer(format)
+            const params = serializer.serialize(values)
+
+            expect(serializer.parse(params, { status: 'array' })).toEqual(values)
+        })
+    })
+
+    describe('visit scheduling', () => {
+        const visitedUrls = (): string[] => mockVisit.mock.calls.map((call) => decodeURIComponent(call[0] as string))
+
+        // Hands out cancel tokens like Inertia, returning a spy per visit
+        const trackCancels = (): Array<ReturnType<typeof vi.fn>> => {
+            const cancels: Array<ReturnType<typeof vi.fn>> = []
+            mockVisit.mockImplementation((_url: string, options: { onCancelToken: (token: { cancel: () => void }) => void }) => {
+                const cancel = vi.fn()
+                cancels.push(cancel)
+                options.onCancelToken({ cancel })
+            })
+            return cancels
+        }
+
+        beforeEach(() => {
+            mockVisit.mockReset()
+            Object.defineProperty(window, 'location', {
+                value: new URL('http://localhost/users'),
+                writable: true,
+            })
+        })
+
+        it('does not let a pending debounced search overwrite a reset', () => {
+            const { result } = withSetup(() =>
+                useFilters(() => ({ search: '', status: '' }), { debounce: { search: 300 } }),
+            )
+
+            result.update('status', 'active')
+            result.update('search', 'abc')
+            result.reset()
+
+            vi.advanceTimersByTime(1000)
+
+            expect(visitedUrls()).toEqual(['/users?status=active', '/users'])
+        })
+
+        it('does not let a pending debounced search fire after resetField', () => {
+            const { result } = withSetup(() =>
+                useFilters(() => ({ search: '', status: '' }), { debounce: { search: 300 } }),
+            )
+
+            result.update('search', 'abc')
+            result.resetField('search')
+
+            vi.advanceTimersByTime(1000)
+
+            expect(mockVisit).not.toHaveBeenCalled()
+        })
+
+        it('collapses overlapping updates into one visit', () => {
+            const { result } = withSetup(() =>
+                useFilters(() => ({ search: '', status: '' }), { debounce: { search: 300 } }),
+            )
+
+            result.update('search', 'abc')
+            result.update('status', 'active')
+
+            vi.advanceTimersByTime(1000)
+
+            expect(visitedUrls()).toEqual(['/users?search=abc&status=active'])
+        })
+
+        it('cancels the in-flight request when a newer visit starts', () => {
+            const cancels = trackCancels()
+            const { result } = withSetup(() => useFilters(() => ({ search: '' })))
+
+            result.update('search', 'a')
+            result.update('search', 'ab')
+
+            expect(cancels[0]).toHaveBeenCalledOnce()
+            expect(cancels[1]).not.toHaveBeenCalled()
+        })
+
+        it('skips visits for the URL already shown or requested', () => {
+            const { result } = withSetup(() => useFilters(() => ({ search: '' })))
+
+            result.update('search', '')
+            expect(mockVisit).not.toHaveBeenCalled()
+
+            result.update('search', 'a')
+            result.update('search', 'a')
+            expect(mockVisit).toHaveBeenCalledOnce()
+        })
+
+        it('stays loading until the latest request finishes', () => {
+            const finishes: Array<() => void> = []
+            mockVisit.mockImplementation((_url: string, options: { onFinish: () => void }) => {
+                finishes.push(options.onFinish)
+            })
+
+            const { result } = withSetup(() => useFilters(() => ({ search: '' })))
+
+            result.update('search', 'a')
+            result.update('search', 'ab')
+
+            // The cancelled request finishes first
+            finishes[0]()
+            expect(result.isLoading.value).toBe(true)
+
+            finishes[1]()
+            expect(result.isLoading.value).toBe(false)
+        })
+
+        it('flushes a pending debounced visit', () => {
+            const { result } = withSetup(() =>
+                useFilters(() => ({ search: '' }), { debounce: { search: 300 } }),
+            )
+
+            result.update('search', 'abc')
+            result.flush()
+
+            expect(visitedUrls()).toEqual(['/users?search=abc'])
+
+            vi.advanceTimersByTime(1000)
+            result.flush()
+
+            expect(mockVisit).toHaveBeenCalledOnce()
+        })
+
+        it('cancels pending and in-flight visits', () => {
+            const cancels = trackCancels()
+            const { result } = withSetup(() =>
+                useFilters(() => ({ search: '', status: '' }), { debounce: { search: 300 } }),
+            )
+
+            result.update('status', 'active')
+            result.update('search', 'abc')
+            result.cancel()
+
+            vi.advanceTimersByTime(1000)
+
+            expect(mockVisit).toHaveBeenCalledOnce()
+            expect(cancels[0]).toHaveBeenCalledOnce()
+            expect(result.isLoading.value).toBe(false)
+        })
+
+        it('keeps what the user is typing when a stale response arrives', async () => {
+            const defaults = reactive({ search: '' })
+            const { result } = withSetup(() =>
+                useFilters(() => ({ ...defaults }), { debounce: { search: 300 } }),
+            )
+
+            result.update('search', 'ab')
+            vi.advanceTimersByTime(300)
+
+            result.update('search', 'abc')
+
+            // The response for "ab" arrives while "abc" is still debouncing
+            defaults.search = 'ab'
+            await nextTick()
+
+            expect(result.values.search).toBe('abc')
+        })
+    })
+
+    describe('query preservation', () => {
+        const visitedQuery = (): string => {
+            const url = mockVisit.mock.calls[0][0] as string
+            return decodeURIComponent(url.split('?')[1] ?? '')
+        }
+
+        beforeEach(() => {
+            mockVisit.mockReset()
+            Object.defineProperty(window, 'location', {
+                value: new URL('http://localhost/users?sort=name&direction=desc&per_page=50&page=4&search=old&status[]=a'),
+                writable: true,
+            })
+        })
+
+        it('keeps non-filter params by default', () => {
+            const { result } = withSetup(() => useFilters(() => ({ search: '', status: [] as string[] })))
+
+            result.update('search', 'new')
+
+            expect(visitedQuery()).toBe('sort=name&direction=desc&per_page=50&search=new&status[]=a')
+        })
+
+        it('drops the cursor along with the page', () => {
+            Object.defineProperty(window, 'location', {
+                value: new URL('http://localhost/items?cursor=abc&per_page=10'),
+                writable: true,
+            })
+
+            const { result } = withSetup(() => useFilters(() => ({ search: '' })))
+
+            result.update('search', 'x')
+
+            expect(visitedQuery()).toBe('per_page=10&search=x')
+        })
+
+        it('keeps only listed params with a preserveQuery allowlist', () => {
+            const { result } = withSetup(() =>
+                useFilters(() => ({ search: '', status: [] as string[] }), { preserveQuery: ['per_page'] }),
+            )
+
+            result.update('search', 'new')
+
+            expect(visitedQuery()).toBe('per_page=50&search=new&status[]=a')
+        })
+
+        it('drops every other param with preserveQuery: false', () => {
+            const { result } = withSetup(() =>
+                useFilters(() => ({ search: '', status: [] as string[] }), { preserveQuery: false }),
+            )
+
+            result.update('search', 'new')
+
+            expect(visitedQuery()).toBe('search=new&status[]=a')
+        })
+
+        it('drops denylisted params with exceptQuery', () => {
+            const { result } = withSetup(() =>
+                useFilters(() => ({ search: '', status: [] as string[] }), { exceptQuery: ['direction', 'sort'] }),
+            )
+
+            result.update('search', 'new')
+
+            expect(visitedQuery()).toBe('per_page=50&search=new&status[]=a')
+        })
+
+        it('nests filters under a namespace', () => {
+            Object.defineProperty(window, 'location', {
+                value: new URL('http://localhost/users?sort=name&filter[search]=old&filter[role]=admin&search=unrelated'),
+                writable: true,
+            })
+
+            const { result } = withSetup(() =>
+                useFilters(() => ({ search: '', status: [] as string[] }), { namespace: 'filter' }),
+            )
+
+            result.updateMany({ search: 'new', status: ['a', 'b'] })
+
+            expect(visitedQuery()).toBe('sort=name&search=unrelated&filter[search]=new&filter[status][]=a&filter[status][]=b')
+        })
+
+        it('does not revisit the current URL when only param order differs', () => {
+            Object.defineProperty(window, 'location', {
+                value: new URL('http://localhost/users?search=abc&sort=name'),
+                writable: true,
+            })
+
+            const { result } = withSetup(() => useFilters(() => ({ search: '' })))
+
+            result.update('search', 'abc')
+
+            expect(mockVisit).not.toHaveBeenCalled()
+        })
+    })
+
+    describe('schema', () => {
+        const visitedQuery = (): string => {
+            const url = mockVisit.mock.calls[0][0] as string
+            return decodeURIComponent(url.split('?')[1] ?? '')
+        }
+
+        const schema = {
+            status: { type: 'string', enum: ['active', 'banned'], default: 'active' },
+            min_price: { type: 'number', min: 0, max: 1000 },
+            since: { type: 'date', min: '2020-01-01' },
+            roles: { type: 'array', enum: ['admin', 'editor'], max: 2 },
+        } as const
+
+        beforeEach(() => {
+            mockVisit.mockReset()
+            Object.defineProperty(window, 'location', {
+                value: new URL('http://localhost/items'),
+                writable: true,
+            })
+        })
+
+        it('coerces incoming values into their declared types', () => {
+            const { result } = withSetup(() =>
+                useFilters(() => ({ status: 'banned', min_price: '25', since: '2024-03-01', roles: 'admin' }), { schema }),
+            )
+
+            expect(result.values.status).toBe('banned')
+            expect(result.values.min_price).toBe(25)
+            expect(result.values.since).toEqual(new Date('2024-03-01'))
+            expect(result.values.roles).toEqual(['admin'])
+        })
+
+        it('falls back to the default for missing or invalid incoming values', () => {
+            const { result } = withSetup(() =>
+                useFilters(() => ({ status: 'deleted', min_price: '-5', since: 'not a date' }), { schema }),
+            )
+
+            expect(result.values.status).toBe('active')
+            expect(result.values.min_price).toBeNull()
+            expect(result.values.since).toBeNull()
+            expect(result.values.roles).toEqual([])
+            expect(result.isValid.value).toBe(true)
+        })
+
+        it('exposes errors and holds the visit back while a value is invalid', () => {
+            const { result } = withSetup(() => useFilters(() => ({}), { schema }))
+
+            result.update('min_price', 5000)
+            result.update('roles', ['admin', 'owner'])
+
+            expect(result.errors.value).toEqual({
+                min_price: 'Must be at most 1000.',
+                roles: 'Must be one of: admin, editor.',
+            })
+            expect(result.isValid.value).toBe(false)
+            expect(mockVisit).not.toHaveBeenCalled()
+
+            result.updateMany({ min_price: 500, roles: ['admin'] })
+
+            expect(result.errors.value).toEqual({})
+            expect(visitedQuery()).toBe('min_price=500&roles[]=admin')
+        })
+
+        it('validates dates and values typed into text inputs', () => {
+            const { result } = withSetup(() => useFilters(() => ({}), { schema }))
+
+            result.values.since = new Date('2019-06-01')
+            ;(result.values as Record<string, unknown>).min_price = 'abc'
+
+            expect(result.errors.value).toEqual({
+                min_price: 'Must be a number.',
+                since: 'Must be on or after 2020-01-01.',
+            })
+        })
+
+        it('uses the field message when given', () => {
+            const { result } = withSetup(() =>
+                useFilters(() => ({}), {
+                    schema: { per_page: { type: 'number', enum: [15, 50], message: 'Pick 15 or 50.' } },
+                }),
+            )
+
+            result.update('per_page', 20)
+
+            expect(result.errors.value).toEqual({ per_page: 'Pick 15 or 50.' })
+        })
+
+        it('compares values as their declared type', () => {
+            const { result } = withSetup(() =>
+                useFilters(() => ({ min_price: 25, since: '2024-03-01', roles: ['admin', 'editor'] }), { schema }),
+            )
+
+            ;(result.values as Record<string, unknown>).min_price = '25'
+            result.values.since = new Date('2024-03-01T00:00:00Z')
+            result.values.roles = ['editor', 'admin']
+
+            expect(result.isDirty.value).toBe(false)
+            expect(result.activeCount.value).toBe(0)
+            expect(mockVisit).not.toHaveBeenCalled()
+        })
+
+        it('writes calendar dates in their short form', () => {
+            const { result } = withSetup(() => useFilters(() => ({}), { schema }))
+
+            result.update('since', new Date('2024-03-01'))
+
+            expect(visitedQuery()).toBe('since=2024-03-01')
+        })
+    })
 })
@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
-import { reactive, nextTick } from 'vue'
+import { reactive, nextTick, defineComponent, h, ref } from 'vue'
+import { mount } from '@vue/test-utils'
 import { withSetup } from './helpers'
 
 const mockProps = reactive<Record<string, any>>({})
@@ -10,6 +11,8 @@ vi.mock('@inertiajs/vue3', () => ({
 }))
 
 import { useFlash } from '../composables/useFlash'
+import { createFlash } from '../stores/flash'
+import type { FlashStore, FlashStoreOptions } from '../types'
 
 beforeEach(() => {
     vi.useFakeTimers()
@@ -17,10 +20,20 @@ beforeEach(() => {
     Object.assign(mockProps, { flash: { messages: [] } })
 })
 
+const installed: FlashStore[] = []
+
 afterEach(() => {
     vi.useRealTimers()
+    installed.splice(0).forEach((store) => store.dispose())
 })
 
+// Options belong to the app's store, installed with createFlash()
+const withOptions = (options: FlashStoreOptions) => {
+    const store = createFlash(options)
+    installed.push(store)
+    return withSetup(() => useFlash(), { global: { plugins: [store] } })
+}
+
 describe('useFlash', () => {
     it('starts with no messages', () => {
         const { result } = withSetup(() => useFlash())
@@ -249,4 +262,413 @@ describe('useFlash', () => {
 
         expect(result.messages.value).toHaveLength(0)
     })
+
+    describe('queueing and grouping', () => {
+        const message = (text: string, type = 'info', autoDismiss: number | false = false) => ({
+            type, text, detail: null, action: null, autoDismiss,
+        })
+
+        it('limits visible messages and counts the overflow', async () => {
+            const { result } = withOptions({ maxVisible: 2 })
+
+            mockProps.flash = { messages: [message('One'), message('Two'), message('Three'), message('Four')] }
+            await nextTick()
+
+            expect(result.messages.value.map((m) => m.text)).toEqual(['One', 'Two'])
+            expect(result.overflowCount.value).toBe(2)
+        })
+
+        it('promotes queued messages when a visible one is dismissed', async () => {
+            const { result } = withOptions({ maxVisible: 1 })
+
+            mockProps.flash = { messages: [message('One'), message('Two')] }
+            await nextTick()
+
+            result.dismiss(result.messages.value[0].id)
+
+            expect(result.messages.value.map((m) => m.text)).toEqual(['Two'])
+            expect(result.overflowCount.value).toBe(0)
+        })
+
+        it('only starts auto-dismiss once a queued message is visible', async () => {
+            const { result } = withOptions({ maxVisible: 1 })
+
+            mockProps.flash = { messages: [message('One', 'info', 1000), message('Two', 'info', 1000)] }
+            await nextTick()
+
+            vi.advanceTimersByTime(1000)
+            expect(result.messages.value.map((m) => m.text)).toEqual(['Two'])
+            expect(result.messages.value[0].remainingPercent).toBe(100)
+
+            vi.advanceTimersByTime(1000)
+            expect(result.messages.value).toHaveLength(0)
+        })
+
+        it('orders messages by type priority', async () => {
+            const { result } = withOptions({ priority: true })
+
+            mockProps.flash = {
+                messages: [message('Saved', 'success'), message('Careful', 'warning'), message('Failed', 'error')],
+            }
+            await nextTick()
+
+            expect(result.messages.value.map((m) => m.type)).toEqual(['error', 'warning', 'success'])
+        })
+
+        it('accepts a custom priority order', async () => {
+            const { result } = withOptions({ priority: ['success', 'error'] })
+
+            mockProps.flash = { messages: [message('Failed', 'error'), message('Note'), message('Saved', 'success')] }
+            await nextTick()
+
+            expect(result.messages.value.map((m) => m.type)).toEqual(['success', 'error', 'info'])
+        })
+
+        it('shows errors first when the stack is full', async () => {
+            const { result } = withOptions({ maxVisible: 1, priority: true })
+
+            mockProps.flash = { messages: [message('Saved', 'success'), message('Failed', 'error')] }
+            await nextTick()
+
+            expect(result.messages.value.map((m) => m.text)).toEqual(['Failed'])
+            expect(result.overflowCount.value).toBe(1)
+        })
+
+        it('collapses identical messages into one with a count', async () => {
+            const { result } = withOptions({ collapse: true })
+
+            mockProps.flash = {
+                messages: [message('Row skipped', 'warning'), message('Row skipped', 'warning'), message('Row skipped', 'info')],
+            }
+            await nextTick()
+
+            expect(result.messages.value).toHaveLength(2)
+            expect(result.messages.value[0].count).toBe(2)
+            expect(result.messages.value[1].count).toBe(1)
+        })
+
+        it('restarts auto-dismiss when a collapsed message repeats', async () => {
+            const { result } = withOptions({ collapse: true })
+
+            mockProps.flash = { messages: [message('Saved', 'success', 1000)] }
+            await nextTick()
+            vi.advanceTimersByTime(800)
+
+            mockProps.flash = { messages: [message('Saved', 'success', 1000)] }
+            await nextTick()
+            vi.advanceTimersByTime(800)
+
+            expect(result.messages.value).toHaveLength(1)
+            expect(result.messages.value[0].count).toBe(2)
+        })
+    })
+
+    describe('pausing', () => {
+        const timed = (text: string, autoDismiss = 1000) => ({
+            type: 'success', text, detail: null, action: null, autoDismiss,
+        })
+
+        it('pauses and resumes a countdown without losing remaining time', async () => {
+            const { result } = withSetup(() => useFlash())
+
+            mockProps.flash = { messages: [timed('Saved')] }
+            await nextTick()
+
+            const id = result.messages.value[0].id
+            vi.advanceTimersByTime(400)
+            result.pause(id)
+
+            vi.advanceTimersByTime(5000)
+            expect(result.messages.value).toHaveLength(1)
+            expect(result.messages.value[0].remainingPercent).toBe(60)
+
+            result.resume(id)
+            vi.advanceTimersByTime(599)
+            expect(result.messages.value).toHaveLength(1)
+
+            vi.advanceTimersByTime(1)
+            expect(result.messages.value).toHaveLength(0)
+        })
+
+        it('pauses and resumes every message', async () => {
+            const { result } = withSetup(() => useFlash())
+
+            mockProps.flash = { messages: [timed('One'), timed('Two', 2000)] }
+            await nextTick()
+
+            result.pauseAll()
+            vi.advanceTimersByTime(5000)
+            expect(result.messages.value).toHaveLength(2)
+
+            result.resumeAll()
+            vi.advanceTimersByTime(1000)
+            expect(result.messages.value.map((m) => m.text)).toEqual(['Two'])
+        })
+
+        it('keeps messages that arrive during pauseAll paused', async () => {
+            const { result } = withSetup(() => useFlash())
+
+            result.pauseAll()
+            mockProps.flash = { messages: [timed('Late')] }
+            await nextTick()
+
+            vi.advanceTimersByTime(5000)
+            expect(result.messages.value).toHaveLength(1)
+        })
+
+        it('pauses while the document is hidden when enabled', async () => {
+            const { result } = withOptions({ pauseWhenHidden: true })
+
+            mockProps.flash = { messages: [timed('Saved')] }
+            await nextTick()
+
+            const setVisibility = (state: string) => {
+                Object.defineProperty(document, 'visibilityState', { value: state, configurable: true })
+                document.dispatchEvent(new Event('visibilitychange'))
+            }
+
+            vi.advanceTimersByTime(500)
+            setVisibility('hidden')
+            vi.advanceTimersByTime(5000)
+            expect(result.messages.value).toHaveLength(1)
+
+            setVisibility('visible')
+            vi.advanceTimersByTime(500)
+            expect(result.messages.value).toHaveLength(0)
+        })
+
+        it('keeps the remaining time of messages pushed back into the queue', async () => {
+            const { result } = withOptions({ maxVisible: 1, priority: true })
+
+            mockProps.flash = { messages: [timed('Saved')] }
+            await nextTick()
+            vi.advanceTimersByTime(600)
+
+            mockProps.flash = { messages: [{ ...timed('Failed'), type: 'error', autoDismiss: false }] }
+            await nextTick()
+            vi.advanceTimersByTime(5000)
+
+            result.dismiss(result.messages.value[0].id)
+            expect(result.messages.value[0].remainingPercent).toBe(40)
+
+            vi.advanceTimersByTime(400)
+            expect(result.messages.value).toHaveLength(0)
+        })
+    })
+
+    describe('shared store', () => {
+        const payload = (text: string) => ({ type: 'info', text, detail: null, action: null, autoDismiss: false })
+
+        // Two sibling components in one app, like a layout toast container
+        // and a page that listens for messages
+        const mountPair = () => {
+            const results: ReturnType<typeof useFlash>[] = []
+            const showPage = ref(true)
+
+            const Child = defineComponent({
+                setup() {
+                    results.push(useFlash())
+                    return () => h('div')
+                },
+            })
+
+            const wrapper = mount(defineComponent({
+                setup: () => () => h('div', [h(Child), showPage.value ? h(Child) : null]),
+            }))
+
+            return { layout: results[0], page: results[1], showPage, wrapper }
+        }
+
+        it('shares messages between callers in the same app', async () => {
+            const { layout, page } = mountPair()
+
+            mockProps.flash = { messages: [payload('Shared')] }
+            await nextTick()
+
+            expect(layout.messages.value).toHaveLength(1)
+            expect(page.messages.value).toHaveLength(1)
+
+            page.dismiss(page.messages.value[0].id)
+
+            expect(layout.messages.value).toHaveLength(0)
+        })
+
+        it('notifies listeners registered anywhere in the app', async () => {
+            const { page } = mountPair()
+            const callback = vi.fn()
+            page.onFlash(callback)
+
+            mockProps.flash = { messages: [payload('Hello')] }
+            await nextTick()
+
+            expect(callback).toHaveBeenCalledOnce()
+        })
+
+        it('removes a component\'s listeners when it unmounts, keeping the store alive', async () => {
+            const { layout, page, showPage } = mountPair()
+            const callback = vi.fn()
+            page.onFlash(callback)
+
+            showPage.value = false
+            await nextTick()
+
+            mockProps.flash = { messages: [payload('After unmount')] }
+            await nextTick()
+
+            expect(callback).not.toHaveBeenCalled()
+            expect(layout.messages.value).toHaveLength(1)
+        })
+
+        it('keeps separate apps isolated', async () => {
+            const { result: first } = withSetup(() => useFlash())
+            const { result: second } = withSetup(() => useFlash())
+
+            mockProps.flash = { messages: [payload('Both see it')] }
+            await nextTick()
+
+            first.dismissAll()
+
+            expect(first.messages.value).toHaveLength(0)
+            expect(second.messages.value).toHaveLength(1)
+        })
+
+        it('uses an installed store and its options', async () => {
+            const store = createFlash({ maxVisible: 1 })
+
+            const { result } = withSetup(() => useFlash(), {
+                global: { plugins: [store] },
+            })
+
+            store.addMessage(payload('One'))
+            store.addMessage(payload('Two'))
+
+            expect(result.messages.value.map((m) => m.text)).toEqual(['One'])
+            expect(result.overflowCount.value).toBe(1)
+
+            store.dispose()
+        })
+
+        it('stops the store when its app unmounts', async () => {
+            const { result, wrapper } = withSetup(() => useFlash())
+
+            wrapper.unmount()
+
+            mockProps.flash = { messages: [payload('Too late')] }
+            await nextTick()
+
+            expect(result.messages.value).toHaveLength(0)
+        })
+    })
+
+    describe('client-side messages', () => {
+        it('sends a message at the end of the tick', async () => {
+            const { result } = withSetup(() => useFlash())
+
+            result.success('Copied')
+            expect(result.messages.value).toHaveLength(0)
+
+            await Promise.resolve()
+
+            expect(result.messages.value).toHaveLength(1)
+            expect(result.messages.value[0]).toMatchObject({
+                type: 'success',
+                text: 'Copied',
+                detail: null,
+                action: null,
+                autoDismiss: 5000,
+                count: 1,
+            })
+        })
+
+        it('applies the fluent builder', async () => {
+            const { result } = withSetup(() => useFlash())
+
+            result.warning('Disk almost full')
+                .detail('92% used')
+                .action('Manage storage', '/storage')
+                .autoDismiss(10000)
+
+            await Promise.resolve()
+
+            expect(result.messages.value[0]).toMatchObject({
+                type: 'warning',
+                detail: '92% used',
+                action: { label: 'Manage storage', url: '/storage' },
+                autoDismiss: 10000,
+            })
+        })
+
+        it('keeps errors until dismissed by default, like the backend', async () => {
+            const { result } = withSetup(() => useFlash())
+
+            result.error('Upload failed')
+            await Promise.resolve()
+
+            vi.advanceTimersByTime(60000)
+
+            expect(result.messages.value).toHaveLength(1)
+            expect(result.messages.value[0].autoDismiss).toBe(false)
+        })
+
+        it('auto-dismisses client messages', async () => {
+            const { result } = withSetup(() => useFlash())
+
+            result.info('Saved draft')
+            await Promise.resolve()
+
+            vi.advanceTimersByTime(5000)
+
+            expect(result.messages.value).toHaveLength(0)
+        })
+
+        it('sends immediately with send() and only once', async () => {
+            const { result } = withSetup(() => useFlash())
+
+            const pending = result.info('Uploading…').autoDismiss(false)
+            const id = pending.send()
+
+            expect(result.messages.value.map((m) => m.id)).toEqual([id])
+
+            pending.send()
+            await Promise.resolve()
+
+            expect(result.messages.value).toHaveLength(1)
+
+            result.dismiss(id)
+            expect(result.messages.value).toHaveLength(0)
+        })
+
+        it('notifies onFlash listeners', async () => {
+            const { result } = withSetup(() => useFlash())
+            const callback = vi.fn()
+            result.onFlash(callback)
+
+            result.success('Copied')
+            await Promise.resolve()
+
+            expect(callback).toHaveBeenCalledWith(expect.objectContaining({ text: 'Copied' }))
+        })
+
+        it('collapses with server messages of the same type and text', async () => {
+            const { result } = withOptions({ collapse: true })
+
+            mockProps.flash = {
+                messages: [{ id: 'server-1', type: 'success', text: 'Saved', detail: null, action: null, autoDismiss: 5000 }],
+            }
+            await nextTick()
+
+            result.success('Saved').send()
+
+            expect(result.messages.value).toHaveLength(1)
+            expect(result.messages.value[0].count).toBe(2)
+        })
+
+        it('uses the store-wide autoDismiss option', async () => {
+            const { result } = withOptions({ autoDismiss: 2000 })
+
+            result.success('Quick').send()
+
+            expect(result.messages.value[0].autoDismiss).toBe(2000)
+        })
+    })
 })
@@ -1,5 +1,5 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest'
-import { reactive, ref } from 'vue'
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { reactive, ref, nextTick } from 'vue'
 import { withSetup } from './helpers'
 
 const mockProps = reactive<Record<string, any>>({})
@@ -11,7 +11,7 @@ vi.mock('@inertiajs/vue3', () => ({
 }))
 
 import { usePagination } from '../composables/usePagination'
-import type { InertiaPage } from '../types'
+import type { InertiaPage, SimplePage, CursorPage, ResourcePage } from '../types'
 
 function makePaginator<T>(data: T[], page = 1, perPage = 15, total?: number): InertiaPage<T> {
     const t = total ?? data.length
@@ -37,6 +37,48 @@ function makePaginator<T>(data: T[], page = 1, perPage = 15, total?: number): In
     }
 }
 
+function makeSimplePaginator<T>(data: T[], page = 1, perPage = 15, hasMore = true): SimplePage<T> {
+    return {
+        data,
+        path: 'http://localhost/items',
+        current_page: page,
+        per_page: perPage,
+        from: (page - 1) * perPage + 1,
+        to: (page - 1) * perPage + data.length,
+        first_page_url: 'http://localhost/items?page=1',
+        next_page_url: hasMore ? `http://localhost/items?page=${page + 1}` : null,
+        prev_page_url: page > 1 ? `http://localhost/items?page=${page - 1}` : null,
+    }
+}
+
+function makeCursorPaginator<T>(data: T[], next: string | null, prev: string | null = null): CursorPage<T> {
+    return {
+        data,
+        path: 'http://localhost/items',
+        per_page: 15,
+        next_cursor: next,
+        prev_cursor: prev,
+        next_page_url: next ? `http://localhost/items?cursor=${next}` : null,
+        prev_page_url: prev ? `http://localhost/items?cursor=${prev}` : null,
+    }
+}
+
+function makeResourcePaginator<T>(data: T[], page = 1, perPage = 15, total?: number): ResourcePage<T> {
+    const { current_page, last_page, per_page, total: t, from, to, links } = makePaginator(data, page, perPage, total)
+    const meta = { current_page, last_page, per_page, total: t, from, to }
+
+    return {
+        data,
+        links: {
+            first: 'http://localhost/items?page=1',
+            last: `http://localhost/items?page=${meta.last_page}`,
+            prev: page > 1 ? `http://localhost/items?page=${page - 1}` : null,
+            next: page < meta.last_page ? `http://localhost/items?page=${page + 1}` : null,
+        },
+        meta: { ...meta, links, path: 'http://localhost/items' },
+    }
+}
+
 beforeEach(() => {
     mockVisit.mockClear()
 })
@@ -220,4 +262,366 @@ describe('usePagination', () => {
 
         expect(result.items.value).toEqual(['x', 'y'])
     })
+
+    describe('infinite mode', () => {
+        const rows = (...ids: number[]) => ids.map((id) => ({ id }))
+
+        const finishVisit = () => {
+            const options = mockVisit.mock.calls.at(-1)![1] as { onFinish: () => void }
+            options.onFinish()
+        }
+
+        it('loads the next page as a partial reload', () => {
+            const paginator = ref(makePaginator(rows(1, 2), 1, 2, 6))
+
+            const { result } = withSetup(() =>
+                usePagination(paginator, { infinite: true, only: ['posts'] }),
+            )
+
+            result.loadMore()
+
+            expect(mockVisit).toHaveBeenCalledOnce()
+            const [url, options] = mockVisit.mock.calls[0]
+            expect(url).toContain('page=2')
+            expect(options).toEqual(
+                expect.objectContaining({ only: ['posts'], preserveState: true, preserveScroll: true }),
+            )
+        })
+
+        it('appends loaded pages to items', async () => {
+            const paginator = ref(makePaginator(rows(1, 2), 1, 2, 6))
+
+            const { result } = withSetup(() => usePagination(paginator, { infinite: true }))
+
+            result.loadMore()
+            paginator.value = makePaginator(rows(3, 4), 2, 2, 6)
+            await nextTick()
+
+            expect(result.items.value).toEqual(rows(1, 2, 3, 4))
+            expect(result.hasMore.value).toBe(true)
+        })
+
+        it('deduplicates rows that shifted between pages', async () => {
+            const paginator = ref(makePaginator(rows(1, 2), 1, 2, 6))
+
+            const { result } = withSetup(() => usePagination(paginator, { infinite: true }))
+
+            result.loadMore()
+            paginator.value = makePaginator(rows(2, 3), 2, 2, 6)
+            await nextTick()
+
+            expect(result.items.value).toEqual(rows(1, 2, 3))
+        })
+
+        it('deduplicates by a custom item key', async () => {
+            const paginator = ref(makePaginator([{ slug: 'a' }, { slug: 'b' }], 1, 2, 4))
+
+            const { result } = withSetup(() =>
+                usePagination(paginator, { infinite: true, itemKey: 'slug' }),
+            )
+
+            result.loadMore()
+            paginator.value = makePaginator([{ slug: 'b' }, { slug: 'c' }], 2, 2, 4)
+            await nextTick()
+
+            expect(result.items.value.map((item) => item.slug)).toEqual(['a', 'b', 'c'])
+        })
+
+        it('starts a fresh list after an unrelated visit', async () => {
+            const paginator = ref(makePaginator(rows(1, 2), 1, 2, 6))
+
+            const { result } = withSetup(() => usePagination(paginator, { infinite: true }))
+
+            paginator.value = makePaginator(rows(5, 6), 1, 2, 2)
+            await nextTick()
+
+            expect(result.items.value).toEqual(rows(5, 6))
+            expect(result.hasMore.value).toBe(false)
+        })
+
+        it('does not load past the last page or while loading', () => {
+            const paginator = ref(makePaginator(rows(1, 2), 1, 2, 4))
+
+            const { result } = withSetup(() => usePagination(paginator, { infinite: true }))
+
+            result.loadMore()
+            result.loadMore()
+            expect(mockVisit).toHaveBeenCalledOnce()
+
+            paginator.value = makePaginator(rows(3, 4), 2, 2, 4)
+            finishVisit()
+            result.loadMore()
+            expect(mockVisit).toHaveBeenCalledOnce()
+        })
+
+        describe('sentinel', () => {
+            let observerCallback: (entries: Array<{ isIntersecting: boolean }>) => void
+            const disconnect = vi.fn()
+
+            beforeEach(() => {
+                disconnect.mockClear()
+                vi.stubGlobal('IntersectionObserver', class {
+                    constructor(callback: typeof observerCallback) {
+                        observerCallback = callback
+                    }
+                    observe() {}
+                    disconnect = disconnect
+                })
+            })
+
+            afterEach(() => {
+                vi.unstubAllGlobals()
+            })
+
+            it('loads more when the sentinel scrolls into view', async () => {
+                const paginator = ref(makePaginator(rows(1, 2), 1, 2, 6))
+
+                const { result } = withSetup(() => usePagination(paginator, { infinite: true }))
+
+                result.sentinel.value = document.createElement('div')
+                await nextTick()
+
+                observerCallback([{ isIntersecting: true }])
+                await nextTick()
+
+                expect(mockVisit).toHaveBeenCalledOnce()
+            })
+
+            it('keeps loading while the sentinel stays visible', async () => {
+                const paginator = ref(makePaginator(rows(1, 2), 1, 2, 6))
+
+                const { result } = withSetup(() => usePagination(paginator, { infinite: true }))
+
+                result.sentinel.value = document.createElement('div')
+                await nextTick()
+                observerCallback([{ isIntersecting: true }])
+                await nextTick()
+
+                paginator.value = makePaginator(rows(3, 4), 2, 2, 6)
+                finishVisit()
+                await nextTick()
+
+                expect(mockVisit).toHaveBeenCalledTimes(2)
+                expect(mockVisit.mock.calls[1][0]).toContain('page=3')
+            })
+
+            it('disconnects the observer on unmount', async () => {
+                const paginator = ref(makePaginator(rows(1, 2), 1, 2, 6))
+
+                const { result, wrapper } = withSetup(() => usePagination(paginator, { infinite: true }))
+
+                result.sentinel.value = document.createElement('div')
+                await nextTick()
+
+                wrapper.unmount()
+
+                expect(disconnect).toHaveBeenCalled()
+            })
+        })
+    })
+
+    describe('simple paginator', () => {
+        it('exposes meta without totals', () => {
+            const paginator = makeSimplePaginator(['a'], 2, 10)
+
+            const { result } = withSetup(() => usePagination(() => paginator))
+
+            expect(result.meta.value).toEqual({ currentPage: 2, perPage: 10, from: 11, to: 11 })
+            expect(result.hasNext.value).toBe(true)
+            expect(result.hasPrev.value).toBe(true)
+        })
+
+        it('uses next_page_url to decide whether there is a next page', () => {
+            const paginator = makeSimplePaginator(['a'], 3, 10, false)
+
+            const { result } = withSetup(() => usePagination(() => paginator))
+
+            expect(result.hasNext.value).toBe(false)
+            expect(result.isLastPage.value).toBe(true)
+
+            result.nextPage()
+            result.goToPage(4)
+
+            expect(mockVisit).not.toHaveBeenCalled()
+        })
+
+        it('navigates by page number', () => {
+            const paginator = makeSimplePaginator(['a'], 1, 10)
+
+            const { result } = withSetup(() => usePagination(() => paginator))
+
+            result.nextPage()
+
+            const url = mockVisit.mock.calls[0][0] as string
+            expect(url).toContain('page=2')
+        })
+    })
+
+    describe('cursor paginator', () => {
+        it('exposes cursor meta', () => {
+            const paginator = makeCursorPaginator(['a'], 'next-abc', 'prev-xyz')
+
+            const { result } = withSetup(() => usePagination(() => paginator))
+
+            expect(result.meta.value).toEqual({ perPage: 15, nextCursor: 'next-abc', prevCursor: 'prev-xyz' })
+            expect(result.hasNext.value).toBe(true)
+            expect(result.hasPrev.value).toBe(true)
+            expect('goToPage' in result).toBe(false)
+        })
+
+        it('navigates with the next and previous cursors', () => {
+            const paginator = makeCursorPaginator(['a'], 'next-abc', 'prev-xyz')
+
+            const { result } = withSetup(() => usePagination(() => paginator))
+
+            result.nextPage()
+            result.prevPage()
+
+            expect(mockVisit.mock.calls[0][0]).toContain('cursor=next-abc')
+            expect(mockVisit.mock.calls[1][0]).toContain('cursor=prev-xyz')
+            expect(mockVisit.mock.calls[0][0]).not.toMatch(/[?&]page=/)
+        })
+
+        it('does not navigate past either end', () => {
+            const paginator = makeCursorPaginator(['a'], null, null)
+
+            const { result } = withSetup(() => usePagination(() => paginator))
+
+            result.nextPage()
+            result.prevPage()
+
+            expect(result.hasNext.value).toBe(false)
+            expect(result.hasPrev.value).toBe(false)
+            expect(mockVisit).not.toHaveBeenCalled()
+        })
+
+        it('appends the next cursor page in infinite mode', async () => {
+            const paginator = ref(makeCursorPaginator([{ id: 1 }], 'c2'))
+
+            const { result } = withSetup(() => usePagination(paginator, { infinite: true }))
+
+            result.loadMore()
+            expect(mockVisit.mock.calls[0][0]).toContain('cursor=c2')
+
+            paginator.value = makeCursorPaginator([{ id: 2 }], null, 'c1')
+            await nextTick()
+
+            expect(result.items.value).toEqual([{ id: 1 }, { id: 2 }])
+            expect(result.hasMore.value).toBe(false)
+        })
+    })
+
+    describe('API resource collections', () => {
+        it('reads pagination from the nested meta object', () => {
+            const paginator = makeResourcePaginator(['a', 'b'], 2, 2, 6)
+
+            const { result } = withSetup(() => usePagination(() => paginator))
+
+            expect(result.items.value).toEqual(['a', 'b'])
+            expect(result.meta.value).toEqual(expect.objectContaining({
+                currentPage: 2,
+                lastPage: 3,
+                perPage: 2,
+                total: 6,
+            }))
+            expect(result.meta.value.links.map((l) => l.label)).toEqual(['1', '2', '3'])
+        })
+
+        it('navigates like a plain paginator', () => {
+            const paginator = makeResourcePaginator(['a'], 1, 1, 3)
+
+            const { result } = withSetup(() => usePagination(() => paginator))
+
+            result.nextPage()
+
+            expect(mockVisit.mock.calls[0][0]).toContain('page=2')
+        })
+
+        it('detects wrapped cursor paginators', () => {
+            const paginator = {
+                data: ['a'],
+                links: { first: null, last: null, prev: null, next: 'http://localhost/items?cursor=c2' },
+                meta: { path: 'http://localhost/items', per_page: 15, next_cursor: 'c2', prev_cursor: null },
+            }
+
+            const { result } = withSetup(() => usePagination(() => paginator))
+
+            expect(result.meta.value).toEqual({ perPage: 15, nextCursor: 'c2', prevCursor: null })
+            expect(result.hasNext.value).toBe(true)
+        })
+
+        it('accepts a custom adapter', () => {
+            const payload = { rows: ['a'], page: { number: 1, size: 1, count: 2 } }
+
+            const { result } = withSetup(() =>
+                usePagination<string>(() => payload, {
+                    adapter: (value) => {
+                        const raw = value as typeof payload
+                        return makePaginator(raw.rows, raw.page.number, raw.page.size, raw.page.count)
+                    },
+                }),
+            )
+
+            expect(result.items.value).toEqual(['a'])
+            expect(result.hasNext.value).toBe(true)
+        })
+    })
+
+    describe('page window', () => {
+        it('builds a windowed list of pages with gaps', () => {
+            const paginator = makePaginator(['a'], 5, 1, 20)
+
+            const { result } = withSetup(() =>
+                usePagination(() => paginator, { onEachSide: 1, onEnds: 1 }),
+            )
+
+            expect(result.pages.value).toEqual([1, '…', 4, 5, 6, '…', 20])
+        })
+
+        it('defaults to Laravel\'s window of 3 on each side and 2 on the ends', () => {
+            const paginator = makePaginator(['a'], 10, 1, 20)
+
+            const { result } = withSetup(() => usePagination(() => paginator))
+
+            expect(result.pages.value).toEqual([1, 2, '…', 7, 8, 9, 10, 11, 12, 13, '…', 19, 20])
+        })
+
+        it('fills a single-page gap instead of showing an ellipsis', () => {
+            const paginator = makePaginator(['a'], 4, 1, 10)
+
+            const { result } = withSetup(() =>
+                usePagination(() => paginator, { onEachSide: 1, onEnds: 1 }),
+            )
+
+            expect(result.pages.value).toEqual([1, 2, 3, 4, 5, '…', 10])
+        })
+
+        it('lists every page when they fit', () => {
+            const paginator = makePaginator(['a'], 2, 1, 4)
+
+            const { result } = withSetup(() => usePagination(() => paginator))
+
+            expect(result.pages.value).toEqual([1, 2, 3, 4])
+        })
+
+        it('ends at the next page for simple paginators', () => {
+            const paginator = makeSimplePaginator(['a'], 6, 1)
+
+            const { result } = withSetup(() =>
+                usePagination(() => paginator, { onEachSide: 1, onEnds: 1 }),
+            )
+
+            expect(result.pages.value).toEqual([1, '…', 5, 6, 7])
+        })
+
+        it('drops previous/next links regardless of their labels', () => {
+            const paginator = makePaginator(['a'], 1, 10, 20)
+            paginator.links[0].label = '&laquo; Précédent'
+            paginator.links[paginator.links.length - 1].label = 'Suivant &raquo;'
+
+            const { result } = withSetup(() => usePagination(() => paginator))
+
+            expect(result.meta.value.links.map((l) => l.label)).toEqual(['1', '2'])
+        })
+    })
 })
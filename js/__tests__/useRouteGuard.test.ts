@@ -0,0 +1,198 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { reactive } from 'vue'
+import { withSetup } from './helpers'
+
+const mockProps = reactive<Record<string, unknown>>({})
+const { mockVisit, mockOn, listeners } = vi.hoisted(() => {
+    const listeners = new Set<(event: CustomEvent) => unknown>()
+    return {
+        listeners,
+        mockVisit: vi.fn(),
+        mockOn: vi.fn((_type: string, callback: (event: CustomEvent) => unknown) => {
+            listeners.add(callback)
+            return () => listeners.delete(callback)
+        }),
+    }
+})
+
+vi.mock('@inertiajs/vue3', () => ({
+    usePage: () => ({ props: mockProps }),
+    router: { visit: mockVisit, on: mockOn },
+}))
+
+import { useRouteGuard } from '../composables/useRouteGuard'
+import { useFlash } from '../composables/useFlash'
+import { createFlash } from '../stores/flash'
+
+// Fires the before event like Inertia does, returning false if a listener cancelled
+const fireBefore = (url: string, method = 'get', prefetch = false): boolean => {
+    const event = new CustomEvent('inertia:before', {
+        cancelable: true,
+        detail: { visit: { url: new URL(url, window.location.href), method, prefetch } },
+    })
+
+    return [...listeners].every((listener) => listener(event) !== false)
+}
+
+beforeEach(() => {
+    mockVisit.mockClear()
+    listeners.clear()
+    Object.keys(mockProps).forEach((key) => delete mockProps[key])
+    Object.assign(mockProps, {
+        auth: {
+            user: { id: 1, name: 'John', email: 'john@test.com', roles: ['editor'], permissions: ['posts.*'] },
+        },
+        flash: { messages: [] },
+    })
+})
+
+describe('useRouteGuard', () => {
+    it('lets allowed visits through', () => {
+        withSetup(() => useRouteGuard([{ pattern: '/posts/*', abilities: ['posts.edit'] }]))
+
+        expect(fireBefore('/posts/1/edit')).toBe(true)
+        expect(fireBefore('/dashboard')).toBe(true)
+    })
+
+    it('cancels visits the user lacks the role for', () => {
+        withSetup(() => useRouteGuard([{ pattern: '/admin/*', roles: ['admin'] }]))
+
+        expect(fireBefore('/admin/users')).toBe(false)
+        expect(fireBefore('/admin')).toBe(true)
+    })
+
+    it('cancels visits the user lacks the ability for', () => {
+        withSetup(() => useRouteGuard([{ pattern: '/billing*', abilities: ['billing.manage'] }]))
+
+        expect(fireBefore('/billing')).toBe(false)
+        expect(fireBefore('/billing/invoices?page=2')).toBe(false)
+    })
+
+    it('requires all roles and abilities with all', () => {
+        withSetup(() => useRouteGuard([
+            { pattern: '/reports/*', roles: ['editor', 'admin'], all: true },
+        ]))
+
+        expect(fireBefore('/reports/sales')).toBe(false)
+    })
+
+    it('matches RegExp patterns and methods', () => {
+        withSetup(() => useRouteGuard([
+            { pattern: /^\/posts\/\d+$/, methods: ['delete'], roles: ['admin'] },
+        ]))
+
+        expect(fireBefore('/posts/1', 'get')).toBe(true)
+        expect(fireBefore('/posts/1', 'delete')).toBe(false)
+    })
+
+    it('ignores visits to other origins', () => {
+        withSetup(() => useRouteGuard([{ pattern: '/admin/*', roles: ['admin'] }]))
+
+        expect(fireBefore('https://example.com/admin/users')).toBe(true)
+    })
+
+    it('flashes an error through the shared store', () => {
+        const { result } = withSetup(() => ({
+            flash: useFlash(),
+            guard: useRouteGuard([{ pattern: '/admin/*', roles: ['admin'] }]),
+        }))
+
+        fireBefore('/admin/users')
+
+        expect(result.flash.messages.value).toHaveLength(1)
+        expect(result.flash.messages.value[0]).toMatchObject({
+            type: 'error',
+            text: 'You are not authorized to access that page.',
+        })
+    })
+
+    it('flashes through an installed store and its options', () => {
+        const { result } = withSetup(() => ({
+            guard: useRouteGuard([
+                { pattern: '/admin/*', roles: ['admin'], message: 'Admins only.' },
+                { pattern: '/billing', abilities: ['billing.manage'], message: 'No billing access.' },
+            ]),
+            flash: useFlash(),
+        }), { global: { plugins: [createFlash({ maxVisible: 1 })] } })
+
+        fireBefore('/admin/users')
+        fireBefore('/billing')
+
+        expect(result.flash.messages.value.map((m) => m.text)).toEqual(['Admins only.'])
+        expect(result.flash.overflowCount.value).toBe(1)
+    })
+
+    it('uses per-rule messages, or none', () => {
+        const { result } = withSetup(() => ({
+            flash: useFlash(),
+            guard: useRouteGuard([
+                { pattern: '/admin/*', roles: ['admin'], message: 'Admins only.' },
+                { pattern: '/secret', roles: ['admin'], message: false },
+            ]),
+        }))
+
+        fireBefore('/admin/users')
+        fireBefore('/secret')
+
+        expect(result.flash.messages.value.map((m) => m.text)).toEqual(['Admins only.'])
+    })
+
+    it('redirects instead of only cancelling', async () => {
+        withSetup(() => useRouteGuard(
+            [{ pattern: '/admin/*', roles: ['admin'] }],
+            { redirect: '/dashboard' },
+        ))
+
+        expect(fireBefore('/admin/users')).toBe(false)
+        await Promise.resolve()
+
+        expect(mockVisit).toHaveBeenCalledWith('/dashboard')
+    })
+
+    it('does not redirect to a page that is also forbidden', async () => {
+        withSetup(() => useRouteGuard(
+            [{ pattern: '/admin/*', roles: ['admin'], redirect: '/admin/home' }],
+        ))
+
+        fireBefore('/admin/users')
+        await Promise.resolve()
+
+        expect(mockVisit).not.toHaveBeenCalled()
+    })
+
+    it('cancels forbidden prefetches quietly', async () => {
+        const { result } = withSetup(() => ({
+            flash: useFlash(),
+            guard: useRouteGuard([{ pattern: '/admin/*', roles: ['admin'] }], { redirect: '/dashboard' }),
+        }))
+
+        expect(fireBefore('/admin/users', 'get', true)).toBe(false)
+        await Promise.resolve()
+
+        expect(result.flash.messages.value).toHaveLength(0)
+        expect(mockVisit).not.toHaveBeenCalled()
+    })
+
+    it('checks URLs with isAllowed', () => {
+        const { result } = withSetup(() => useRouteGuard([{ pattern: '/admin/*', roles: ['admin'] }]))
+
+        expect(result.isAllowed('/admin/users')).toBe(false)
+        expect(result.isAllowed('/posts')).toBe(true)
+    })
+
+    it('stops guarding when the component unmounts', () => {
+        const { wrapper } = withSetup(() => useRouteGuard([{ pattern: '/admin/*', roles: ['admin'] }]))
+
+        wrapper.unmount()
+
+        expect(fireBefore('/admin/users')).toBe(true)
+    })
+
+    it('stops guarding with stop()', () => {
+        const { result } = withSetup(() => useRouteGuard([{ pattern: '/admin/*', roles: ['admin'] }]))
+
+        result.stop()
+
+        expect(fireBefore('/admin/users')).toBe(true)
+    })
+})
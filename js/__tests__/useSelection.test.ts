@@ -0,0 +1,187 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { ref, nextTick } from 'vue'
+import { withSetup } from './helpers'
+
+const { mockVisit } = vi.hoisted(() => ({ mockVisit: vi.fn() }))
+
+vi.mock('@inertiajs/vue3', () => ({
+    usePage: () => ({ props: {} }),
+    router: { visit: mockVisit },
+}))
+
+import { useSelection } from '../composables/useSelection'
+
+interface User {
+    id: number
+    uuid: string
+}
+
+const pageOf = (...ids: number[]): User[] => ids.map((id) => ({ id, uuid: `u-${id}` }))
+
+const setLocation = (url: string): void => {
+    Object.defineProperty(window, 'location', { value: new URL(url), writable: true })
+}
+
+interface VisitCall {
+    method: string
+    data: Record<string, unknown>
+    onSuccess: () => void
+    onFinish: () => void
+}
+
+const lastVisit = (): [string, VisitCall] => mockVisit.mock.calls.at(-1) as [string, VisitCall]
+
+beforeEach(() => {
+    mockVisit.mockReset()
+    setLocation('http://localhost/users')
+})
+
+describe('useSelection', () => {
+    it('toggles rows by id', () => {
+        const items = ref(pageOf(1, 2, 3))
+        const { result } = withSetup(() => useSelection(items))
+
+        result.toggle(items.value[0])
+        result.toggle(items.value[2])
+        result.toggle(items.value[0])
+
+        expect([...result.selectedIds.value]).toEqual([3])
+        expect(result.isSelected(items.value[2])).toBe(true)
+        expect(result.selectedCount.value).toBe(1)
+    })
+
+    it('uses a custom row key', () => {
+        const items = ref(pageOf(1, 2))
+        const { result } = withSetup(() => useSelection(items, { key: 'uuid' }))
+
+        result.select(...items.value)
+
+        expect([...result.selectedIds.value]).toEqual(['u-1', 'u-2'])
+    })
+
+    it('keeps the selection across page changes', async () => {
+        const items = ref(pageOf(1, 2))
+        const { result } = withSetup(() => useSelection(items))
+
+        result.selectPage()
+        items.value = pageOf(3, 4)
+        await nextTick()
+
+        expect(result.isPageSelected.value).toBe(false)
+        expect(result.selectedCount.value).toBe(2)
+
+        result.select(items.value[0])
+
+        expect(result.isPagePartiallySelected.value).toBe(true)
+        expect([...result.selectedIds.value]).toEqual([1, 2, 3])
+    })
+
+    it('toggles the whole page', () => {
+        const items = ref(pageOf(1, 2))
+        const { result } = withSetup(() => useSelection(items))
+
+        result.select(items.value[0])
+        result.togglePage()
+        expect(result.isPageSelected.value).toBe(true)
+
+        result.togglePage()
+        expect(result.hasSelection.value).toBe(false)
+    })
+
+    it('selects everything matching the filters', () => {
+        const items = ref(pageOf(1, 2))
+        const { result } = withSetup(() => useSelection(items, { total: () => 40 }))
+
+        result.selectAllMatching()
+        result.deselect(items.value[1])
+
+        expect(result.isAllMatching.value).toBe(true)
+        expect(result.isSelected(items.value[0])).toBe(true)
+        expect(result.isSelected(items.value[1])).toBe(false)
+        expect(result.selectedCount.value).toBe(39)
+        expect([...result.excludedIds.value]).toEqual([2])
+    })
+
+    it('clears when the reset source changes', async () => {
+        const filters = ref({ status: 'active' })
+        const items = ref(pageOf(1))
+        const { result } = withSetup(() => useSelection(items, { resetOn: filters }))
+
+        result.selectAllMatching()
+        filters.value = { status: 'banned' }
+        await nextTick()
+
+        expect(result.isAllMatching.value).toBe(false)
+        expect(result.hasSelection.value).toBe(false)
+    })
+
+    it('submits explicit ids', () => {
+        const items = ref(pageOf(1, 2))
+        const { result } = withSetup(() => useSelection(items))
+
+        result.selectPage()
+        result.submit('/users/bulk', { data: { action: 'archive' } })
+
+        const [url, options] = lastVisit()
+        expect(url).toBe('/users/bulk')
+        expect(options.method).toBe('post')
+        expect(options.data).toEqual({ action: 'archive', ids: [1, 2] })
+    })
+
+    it('submits the current filter query in "all matching" mode', () => {
+        setLocation('http://localhost/users?status=active&roles[]=admin&page=3&per_page=50')
+
+        const items = ref(pageOf(1, 2))
+        const { result } = withSetup(() => useSelection(items, { total: () => 40 }))
+
+        result.selectAllMatching()
+        result.deselect(items.value[0])
+        result.submit('/users/bulk', { method: 'delete' })
+
+        const [, options] = lastVisit()
+        expect(options.method).toBe('delete')
+        expect(options.data).toEqual({
+            all: true,
+            query: { status: 'active', roles: ['admin'] },
+            except: [1],
+        })
+    })
+
+    it('uses an explicit query when given', () => {
+        const items = ref(pageOf(1))
+        const { result } = withSetup(() => useSelection(items, { query: () => ({ search: 'jo' }) }))
+
+        result.selectAllMatching()
+
+        expect(result.payload.value).toEqual({ all: true, query: { search: 'jo' }, except: [] })
+    })
+
+    it('clears the selection after a successful action', () => {
+        const items = ref(pageOf(1, 2))
+        const onSuccess = vi.fn()
+        const { result } = withSetup(() => useSelection(items))
+
+        result.selectPage()
+        result.submit('/users/bulk', { onSuccess })
+
+        expect(result.isSubmitting.value).toBe(true)
+
+        lastVisit()[1].onSuccess()
+        lastVisit()[1].onFinish()
+
+        expect(result.hasSelection.value).toBe(false)
+        expect(result.isSubmitting.value).toBe(false)
+        expect(onSuccess).toHaveBeenCalledOnce()
+    })
+
+    it('keeps the selection when asked to', () => {
+        const items = ref(pageOf(1, 2))
+        const { result } = withSetup(() => useSelection(items))
+
+        result.selectPage()
+        result.submit('/users/export', { clearOnSuccess: false })
+        lastVisit()[1].onSuccess()
+
+        expect(result.selectedCount.value).toBe(2)
+    })
+})
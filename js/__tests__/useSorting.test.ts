@@ -87,6 +87,21 @@ describe('useSorting', () => {
         expect(url).not.toContain('page=')
     })
 
+    it('drops the cursor when sorting', () => {
+        Object.defineProperty(window, 'location', {
+            value: new URL('http://localhost/items?cursor=abc&per_page=10'),
+            writable: true,
+        })
+
+        const { result } = withSetup(() =>
+            useSorting(() => ({ field: 'name', direction: 'asc' as const })),
+        )
+
+        result.sortBy('email')
+
+        expect(mockVisit.mock.calls[0][0]).toBe('/items?per_page=10&sort=email&direction=asc')
+    })
+
     it('passes preserveScroll option', () => {
         const { result } = withSetup(() =>
             useSorting(() => ({ field: 'name', direction: 'asc' as const }), {
@@ -131,4 +146,90 @@ describe('useSorting', () => {
             expect.objectContaining({ only: ['users'] }),
         )
     })
+
+    describe('multiple mode', () => {
+        const setLocation = (search: string) => {
+            Object.defineProperty(window, 'location', {
+                value: new URL(`http://localhost/items${search}`),
+                writable: true,
+            })
+        }
+
+        const visitedSort = (): string | null => {
+            const url = mockVisit.mock.calls[0][0] as string
+            return new URL(url, 'http://localhost').searchParams.get('sort')
+        }
+
+        it('parses sorts from the URL in priority order', () => {
+            setLocation('?sort=status,-created_at')
+
+            const { result } = withSetup(() => useSorting(() => null, { multiple: true }))
+
+            expect(result.sorts.value).toEqual([
+                { field: 'status', direction: 'asc' },
+                { field: 'created_at', direction: 'desc' },
+            ])
+            expect(result.sortIndex('status')).toBe(1)
+            expect(result.sortIndex('created_at')).toBe(2)
+            expect(result.sortIndex('name')).toBeNull()
+            expect(result.directionOf('created_at')).toBe('desc')
+            expect(result.field.value).toBe('status')
+        })
+
+        it('prefers a sorts array passed in over the URL', () => {
+            setLocation('?sort=status')
+
+            const { result } = withSetup(() =>
+                useSorting(() => [{ field: 'name', direction: 'desc' as const }], { multiple: true }),
+            )
+
+            expect(result.sorts.value).toEqual([{ field: 'name', direction: 'desc' }])
+        })
+
+        it('appends a new column when additive', () => {
+            setLocation('?sort=status&page=2')
+
+            const { result } = withSetup(() => useSorting(() => null, { multiple: true }))
+
+            result.sortBy('created_at', true)
+
+            expect(visitedSort()).toBe('status,created_at')
+            expect(mockVisit.mock.calls[0][0]).not.toContain('page=')
+            expect(mockVisit.mock.calls[0][0]).not.toContain('direction=')
+        })
+
+        it('cycles an existing column asc → desc → none in place', () => {
+            setLocation('?sort=status,created_at')
+            const { result: asc } = withSetup(() => useSorting(() => null, { multiple: true }))
+            asc.sortBy('status', true)
+            expect(visitedSort()).toBe('-status,created_at')
+
+            mockVisit.mockClear()
+            setLocation('?sort=-status,created_at')
+            const { result: desc } = withSetup(() => useSorting(() => null, { multiple: true }))
+            desc.sortBy('status', true)
+            expect(visitedSort()).toBe('created_at')
+        })
+
+        it('replaces other columns when not additive', () => {
+            setLocation('?sort=status,-created_at')
+
+            const { result } = withSetup(() => useSorting(() => null, { multiple: true }))
+
+            result.sortBy('status')
+
+            expect(visitedSort()).toBe('-status')
+        })
+
+        it('removes the sort param once the last column is cleared', () => {
+            setLocation('?sort=-status&search=foo')
+
+            const { result } = withSetup(() => useSorting(() => null, { multiple: true }))
+
+            result.sortBy('status')
+
+            const url = mockVisit.mock.calls[0][0] as string
+            expect(url).toBe('/items?search=foo')
+        })
+    })
 })
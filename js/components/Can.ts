@@ -0,0 +1,62 @@
+import { defineComponent, type PropType } from 'vue'
+import { useAuth } from '../composables/useAuth'
+import type { InferAbility, UseAuthOptions } from '../types'
+
+/**
+ * Renders its default slot only when the user has the ability, and the
+ * `fallback` slot otherwise. Renderless — no wrapper element is added.
+ *
+ * Pass several abilities to require any of them, or all of them with `all`.
+ * With `model`, the check runs against that model via `canOn()`.
+ * Custom resolvers come from `createAuth()`, or from the `auth` prop.
+ *
+ * @example
+ * <Can ability="posts.create">
+ *     <Link href="/posts/create">New post</Link>
+ *     <template #fallback>Ask an editor to publish.</template>
+ * </Can>
+ *
+ * <Can ability="update" :model="post">
+ *     <EditButton :post="post" />
+ * </Can>
+ */
+export const Can = defineComponent({
+    name: 'Can',
+    props: {
+        ability: {
+            type: [String, Array] as PropType<InferAbility | InferAbility[]>,
+            required: true,
+        },
+        model: {
+            type: Object as PropType<object | null>,
+            default: undefined,
+        },
+        type: {
+            type: String,
+            default: undefined,
+        },
+        all: {
+            type: Boolean,
+            default: false,
+        },
+        /** Options for `useAuth()`, e.g. `resolveRoles`. Read once, when set up. */
+        auth: {
+            type: Object as PropType<UseAuthOptions>,
+            default: undefined,
+        },
+    },
+    setup(props, { slots }) {
+        const { can, canOn } = useAuth(props.auth)
+
+        const check = (ability: string): boolean => {
+            return props.model === undefined ? can(ability) : canOn(props.model, ability, props.type)
+        }
+
+        return () => {
+            const abilities: string[] = Array.isArray(props.ability) ? props.ability : [props.ability]
+            const allowed = props.all ? abilities.every(check) : abilities.some(check)
+
+            return allowed ? slots.default?.() : slots.fallback?.()
+        }
+    },
+})
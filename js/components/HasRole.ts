@@ -0,0 +1,43 @@
+import { defineComponent, type PropType } from 'vue'
+import { useAuth } from '../composables/useAuth'
+import type { InferRole, UseAuthOptions } from '../types'
+
+/**
+ * Renders its default slot only when the user has one of the roles (or all
+ * of them, with `all`), and the `fallback` slot otherwise. Renderless.
+ * Custom resolvers come from `createAuth()`, or from the `auth` prop.
+ *
+ * @example
+ * <HasRole :roles="['admin', 'editor']">
+ *     <AdminMenu />
+ *     <template #fallback><UserMenu /></template>
+ * </HasRole>
+ */
+export const HasRole = defineComponent({
+    name: 'HasRole',
+    props: {
+        roles: {
+            type: [String, Array] as PropType<InferRole | InferRole[]>,
+            required: true,
+        },
+        all: {
+            type: Boolean,
+            default: false,
+        },
+        /** Options for `useAuth()`, e.g. `resolveRoles`. Read once, when set up. */
+        auth: {
+            type: Object as PropType<UseAuthOptions>,
+            default: undefined,
+        },
+    },
+    setup(props, { slots }) {
+        const { hasAnyRole, hasAllRoles } = useAuth(props.auth)
+
+        return () => {
+            const roles: string[] = Array.isArray(props.roles) ? props.roles : [props.roles]
+            const allowed = props.all ? hasAllRoles(...roles) : hasAnyRole(...roles)
+
+            return allowed ? slots.default?.() : slots.fallback?.()
+        }
+    },
+})
@@ -1,20 +1,57 @@
 import { computed } from 'vue'
-import { usePage } from '@inertiajs/vue3'
-import type { UseAuthReturn, UseAuthOptions, SharedData, InferUser } from '../types'
+import { router, usePage } from '@inertiajs/vue3'
+import { matchesPermission, stringList } from '../utils/permissions'
+import { resolvePolicy } from '../stores/policies'
+import { resolveAuthOptions } from '../stores/auth'
+import type { UseAuthReturn, UseAuthOptions, SharedData, InferUser, ModelAbility } from '../types'
 
 /**
  * Type-safe access to the authenticated user from Inertia shared data.
  *
+ * `can()` checks abilities in two places. A shared `auth.can` map (ability →
+ * boolean, computed by the backend per request) is authoritative for the
+ * abilities it lists; anything else is matched against the user's
+ * permissions, where wildcards like `posts.*` are honoured.
+ *
+ * `canOn()` answers per-model checks the same way: the model's own `can`
+ * map first, then a client-side policy registered with `definePolicies()`
+ * for the model's type.
+ *
+ * Session state comes from the same shared `auth` data: `impersonator` is
+ * the original user while impersonating, `isVerified` reads the user's
+ * `email_verified_at`, and `requiresTwoFactor` reads `auth.requiresTwoFactor`.
+ *
+ * Options set once with `createAuth()` apply to every call, including the
+ * ones made by `<Can>`, `<HasRole>` and `v-can`.
+ *
  * @example
- * const { user, isAuthenticated, hasRole } = useAuth()
+ * const { user, isAuthenticated, hasRole, can } = useAuth()
  *
  * // With custom role resolution:
  * const { hasRole } = useAuth({
  *     resolveRoles: (user) => user.permissions.map(p => p.name)
  * })
+ *
+ * // With custom permission resolution (e.g. Spatie's getAllPermissions()):
+ * const { can } = useAuth({
+ *     resolvePermissions: (user) => user.all_permissions
+ * })
+ *
+ * // Per-model checks, e.g. each row carrying `can: { update: true }`:
+ * const { canOn } = useAuth()
+ * // <button v-if="canOn(post, 'update')">Edit</button>
+ *
+ * // Impersonation banner:
+ * const { isImpersonating, impersonator, stopImpersonating } = useAuth()
  */
 export function useAuth<T = InferUser>(options: UseAuthOptions<T> = {}): UseAuthReturn<T> {
-    const { resolveRoles } = options
+    const {
+        resolveRoles,
+        resolvePermissions,
+        resolveModelType,
+        stopImpersonatingUrl = '/impersonate/leave',
+        stopImpersonatingMethod = 'get',
+    } = resolveAuthOptions(options)
     const page = usePage<SharedData>()
 
     const user = computed<T | null>(() => {
@@ -25,11 +62,44 @@ export function useAuth<T = InferUser>(options: UseAuthOptions<T> = {}): UseAuth
 
     const isGuest = computed(() => user.value === null)
 
+    const impersonator = computed<T | null>(() => {
+        return ((page.props.auth as { impersonator?: unknown } | undefined)?.impersonator as T) ?? null
+    })
+
+    const isImpersonating = computed(() => {
+        const flag = (page.props.auth as { impersonating?: unknown } | undefined)?.impersonating
+        return typeof flag === 'boolean' ? flag && user.value !== null : impersonator.value !== null
+    })
+
+    const stopImpersonating = (): void => {
+        if (!isImpersonating.value) return
+
+        router.visit(stopImpersonatingUrl, { method: stopImpersonatingMethod })
+    }
+
+    const isVerified = computed(() => {
+        if (!user.value) return false
+        const verifiedAt = (user.value as Record<string, unknown>).email_verified_at
+        return verifiedAt !== null && verifiedAt !== undefined
+    })
+
+    const requiresTwoFactor = computed(() => {
+        return (page.props.auth as { requiresTwoFactor?: unknown } | undefined)?.requiresTwoFactor === true
+    })
+
+    const abilities = computed<Record<string, boolean>>(() => {
+        const can = (page.props.auth as { can?: unknown } | undefined)?.can
+        return can !== null && typeof can === 'object' ? can as Record<string, boolean> : {}
+    })
+
     const getRoles = (currentUser: T): string[] => {
         if (resolveRoles) return resolveRoles(currentUser)
+        return stringList((currentUser as Record<string, unknown>).roles)
+    }
 
-        const u = currentUser as Record<string, unknown>
-        return Array.isArray(u.roles) ? u.roles.filter((r): r is string => typeof r === 'string') : []
+    const getPermissions = (currentUser: T): string[] => {
+        if (resolvePermissions) return resolvePermissions(currentUser)
+        return stringList((currentUser as Record<string, unknown>).permissions)
     }
 
     const hasRole = (role: string): boolean => {
@@ -41,11 +111,61 @@ export function useAuth<T = InferUser>(options: UseAuthOptions<T> = {}): UseAuth
         return roles.some((role) => hasRole(role))
     }
 
+    const hasAllRoles = (...roles: string[]): boolean => {
+        return roles.every((role) => hasRole(role))
+    }
+
+    const can = (ability: string): boolean => {
+        // The backend's answer wins, even for guests
+        if (ability in abilities.value) return abilities.value[ability] === true
+
+        if (!user.value) return false
+        return getPermissions(user.value).some((granted) => matchesPermission(granted, ability))
+    }
+
+    const canAny = (...list: string[]): boolean => {
+        return list.some((ability) => can(ability))
+    }
+
+    const canAll = (...list: string[]): boolean => {
+        return list.every((ability) => can(ability))
+    }
+
+    const canOn = <M extends object>(
+        model: M | null | undefined,
+        ability: ModelAbility<M>,
+        type?: string,
+    ): boolean => {
+        if (!model) return false
+
+        const map = (model as { can?: unknown }).can
+        if (map !== null && typeof map === 'object' && ability in map) {
+            return (map as Record<string, unknown>)[ability] === true
+        }
+
+        const modelType = type ?? resolveModelType?.(model)
+        const check = modelType ? resolvePolicy(modelType)?.[ability] : undefined
+        if (!check) return false
+
+        // Registered policies are typed against their own model
+        return (check as (user: T | null, model: M) => boolean)(user.value, model)
+    }
+
     return {
         user,
         isAuthenticated,
         isGuest,
+        impersonator,
+        isImpersonating,
+        stopImpersonating,
+        isVerified,
+        requiresTwoFactor,
         hasRole,
         hasAnyRole,
+        hasAllRoles,
+        can,
+        canAny,
+        canAll,
+        canOn,
     }
 }
@@ -1,17 +1,63 @@
-import { computed } from 'vue'
+import { computed, getCurrentInstance, onUnmounted, toValue, type ComputedRef, type MaybeRefOrGetter } from 'vue'
 import { usePage } from '@inertiajs/vue3'
-import type { UseBreadcrumbsReturn, SharedData } from '../types'
+import { resolveBreadcrumbStore } from '../stores/breadcrumbs'
+import type {
+    UseBreadcrumbsReturn,
+    UseBreadcrumbsOptions,
+    SharedData,
+    BreadcrumbItem,
+    BreadcrumbJsonLd,
+    BreadcrumbTitleOptions,
+    CollapsedBreadcrumb,
+} from '../types'
 
 /**
  * Access the breadcrumb trail shared from the Laravel backend.
  *
+ * The trail can be changed on the client with `push`, `replaceLast` and
+ * `setTrail` — e.g. to show a record's title once it has loaded in a modal.
+ * Changes apply on top of the server's crumbs in the order they were made,
+ * are shared with every other `useBreadcrumbs()` in the app, and accept
+ * getters so they follow reactive state. Changes made from a component are
+ * reverted when it unmounts; each call also returns a function to revert
+ * it sooner.
+ *
+ * `collapsed` cuts long trails down to `maxVisible` crumbs — the first
+ * `keepFirst` and the last few — with the rest grouped into one ellipsis
+ * entry, for narrow screens.
+ *
+ * For public pages, `jsonLd` describes the trail as a schema.org
+ * BreadcrumbList and `title()` builds a document title from it. Neither
+ * touches the DOM, so both render the same during SSR. Relative URLs are
+ * only made absolute against `origin`; without one they're left relative
+ * on the server and in the browser alike, so hydration matches.
+ *
  * @example
  * const { crumbs, hasCrumbs } = useBreadcrumbs()
+ *
+ * // Deep trails on mobile: Home / … / Invoices / #1042
+ * const { collapsed } = useBreadcrumbs({ maxVisible: () => (isMobile.value ? 3 : Infinity) })
+ *
+ * // In a page that loads a record asynchronously:
+ * const { replaceLast } = useBreadcrumbs()
+ * replaceLast(() => ({ label: order.value?.number ?? 'Loading…', url: null }))
+ *
+ * // <Head :title="pageTitle" />
+ * const { title, jsonLdScript } = useBreadcrumbs()
+ * const pageTitle = title({ separator: ' · ', depth: 2 })
  */
-export function useBreadcrumbs(): UseBreadcrumbsReturn {
+export function useBreadcrumbs(options: UseBreadcrumbsOptions = {}): UseBreadcrumbsReturn {
+    const {
+        maxVisible = Infinity,
+        keepFirst = 1,
+        origin,
+    } = options
+
     const page = usePage<SharedData>()
+    const store = resolveBreadcrumbStore()
+    const reverts = new Set<() => void>()
 
-    const crumbs = computed(() => {
+    const serverCrumbs = computed(() => {
         const breadcrumbs = page.props?.breadcrumbs
 
         if (!breadcrumbs || !Array.isArray(breadcrumbs)) {
@@ -21,10 +67,111 @@ export function useBreadcrumbs(): UseBreadcrumbsReturn {
         return breadcrumbs
     })
 
+    const crumbs = computed(() => store.apply(serverCrumbs.value))
+
     const hasCrumbs = computed(() => crumbs.value.length > 0)
 
+    const current = computed(() => {
+        const flagged = crumbs.value.find((crumb) => crumb.current === true)
+        if (flagged) return flagged
+
+        const last = crumbs.value[crumbs.value.length - 1]
+        return last && last.current !== false ? last : null
+    })
+
+    const collapsed = computed<CollapsedBreadcrumb[]>(() => {
+        const trail = crumbs.value
+        const entries = trail.map((crumb) => ({ ...crumb, type: 'crumb' as const }))
+        const max = Math.max(toValue(maxVisible), 1)
+
+        if (trail.length <= max) return entries
+
+        // Always leave room for at least the last crumb
+        const first = Math.min(Math.max(keepFirst, 0), max - 1)
+        const last = max - first
+
+        return [
+            ...entries.slice(0, first),
+            { type: 'ellipsis', items: trail.slice(first, trail.length - last) },
+            ...entries.slice(trail.length - last),
+        ]
+    })
+
+    // Never the browser's location: the server has none, and the output
+    // must match on both sides
+    const resolveItem = (url: string): string => (origin ? new URL(url, origin).href : url)
+
+    const jsonLd = computed<BreadcrumbJsonLd>(() => {
+        return {
+            '@context': 'https://schema.org',
+            '@type': 'BreadcrumbList',
+            itemListElement: crumbs.value.map((crumb, index) => ({
+                '@type': 'ListItem',
+                position: index + 1,
+                name: crumb.label,
+                // The current page may be left without a URL
+                ...(crumb.url ? { item: resolveItem(crumb.url) } : {}),
+            })),
+        }
+    })
+
+    // Safe to inline in a <script> tag: no `</script>` can appear in the output
+    const jsonLdScript = computed(() => JSON.stringify(jsonLd.value).replace(/</g, '\\u003c'))
+
+    const title = (titleOptions: BreadcrumbTitleOptions = {}): ComputedRef<string> => {
+        const { separator = ' | ', order = 'reverse', depth = Infinity } = titleOptions
+
+        return computed(() => {
+            const labels = crumbs.value.map((crumb) => crumb.label)
+            const used = labels.slice(Math.max(labels.length - depth, 0))
+
+            return (order === 'reverse' ? [...used].reverse() : used).join(separator)
+        })
+    }
+
+    const track = (override: (trail: BreadcrumbItem[]) => BreadcrumbItem[]): (() => void) => {
+        const remove = store.add(override)
+
+        const revert = (): void => {
+            remove()
+            reverts.delete(revert)
+        }
+        reverts.add(revert)
+
+        return revert
+    }
+
+    const push = (...items: MaybeRefOrGetter<BreadcrumbItem>[]): (() => void) => {
+        return track((trail) => [...trail, ...items.map((item) => toValue(item))])
+    }
+
+    const replaceLast = (item: MaybeRefOrGetter<BreadcrumbItem>): (() => void) => {
+        return track((trail) => [...trail.slice(0, -1), toValue(item)])
+    }
+
+    const setTrail = (items: MaybeRefOrGetter<BreadcrumbItem[]>): (() => void) => {
+        return track(() => [...toValue(items)])
+    }
+
+    const reset = (): void => {
+        reverts.forEach((revert) => revert())
+    }
+
+    if (getCurrentInstance()) {
+        onUnmounted(reset)
+    }
+
     return {
         crumbs,
         hasCrumbs,
+        current,
+        collapsed,
+        jsonLd,
+        jsonLdScript,
+        title,
+        push,
+        replaceLast,
+        setTrail,
+        reset,
     }
 }
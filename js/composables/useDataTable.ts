@@ -0,0 +1,394 @@
+import { computed, shallowRef, watch, onUnmounted, type MaybeRefOrGetter, toValue } from 'vue'
+import { usePagination } from './usePagination'
+import { getCurrentUrl } from '../utils/ssr'
+import { createVisitScheduler } from '../utils/visit'
+import { createFilterState } from '../utils/filters'
+import { rememberQuery } from '../utils/remember'
+import { detectPaginatorType, resolvePaginator } from '../utils/paginator'
+import { nextSorts, parseSortParam, serializeSortParam } from '../utils/sort'
+import type {
+    UseDataTableOptions,
+    UseDataTableReturn,
+    UseSimpleDataTableReturn,
+    UseCursorDataTableReturn,
+    DataTableColumnState,
+    InertiaPage,
+    SimplePage,
+    CursorPage,
+    Paginator,
+    ResourcePage,
+    SimpleResourcePage,
+    CursorResourcePage,
+    AnyResourcePage,
+    SortDirection,
+    SortState,
+} from '../types'
+
+// Params the table writes itself; everything else belongs to someone else
+const TABLE_PARAMS = ['sort', 'direction', 'page', 'per_page', 'cursor']
+
+const humanize = (key: string): string => {
+    const words = key.replace(/[_.-]+/g, ' ').trim()
+    return words.charAt(0).toUpperCase() + words.slice(1)
+}
+
+/**
+ * Filters, sorting and pagination for an index page, backed by one query
+ * state and one Inertia visit per change.
+ *
+ * `useFilters`, `useSorting` and `usePagination` each build their own URL;
+ * wiring them together by hand means three visits racing over `page`. Here
+ * every change goes through a single scheduler: filter changes (debounced
+ * per field) and sort changes go back to page 1, a page change keeps the
+ * filters and sort, and a change made while a debounced filter is pending
+ * sends both together.
+ *
+ * `columns` describes the table's columns; the returned `columns` adds the
+ * current sort state of each so headers can render without extra lookups.
+ *
+ * @example
+ * const table = useDataTable(() => props.users, {
+ *     filters: () => props.filters,
+ *     sort: () => props.sort,
+ *     debounce: { search: 300 },
+ *     columns: [
+ *         { key: 'name', sortable: true },
+ *         { key: 'email' },
+ *         { key: 'created_at', label: 'Joined', sortable: true },
+ *     ],
+ *     only: ['users', 'filters', 'sort'],
+ * })
+ *
+ * // <input v-model="table.values.search" />
+ * // <th v-for="col in table.columns.value" @click="col.sortable && table.sortBy(col.sortField!)">
+ */
+export function useDataTable<T, F extends object = Record<string, unknown>>(
+    paginator: MaybeRefOrGetter<InertiaPage<T> | ResourcePage<T>>,
+    options?: UseDataTableOptions<T, F>,
+): UseDataTableReturn<T, F>
+export function useDataTable<T, F extends object = Record<string, unknown>>(
+    paginator: MaybeRefOrGetter<SimplePage<T> | SimpleResourcePage<T>>,
+    options?: UseDataTableOptions<T, F>,
+): UseSimpleDataTableReturn<T, F>
+export function useDataTable<T, F extends object = Record<string, unknown>>(
+    paginator: MaybeRefOrGetter<CursorPage<T> | CursorResourcePage<T>>,
+    options?: UseDataTableOptions<T, F>,
+): UseCursorDataTableReturn<T, F>
+export function useDataTable<T, F extends object = Record<string, unknown>>(
+    paginator: MaybeRefOrGetter<Paginator<T> | AnyResourcePage<T>>,
+    options?: UseDataTableOptions<T, F>,
+): UseDataTableReturn<T, F> | UseSimpleDataTableReturn<T, F> | UseCursorDataTableReturn<T, F>
+export function useDataTable<T, F extends object = Record<string, unknown>>(
+    paginator: MaybeRefOrGetter<unknown>,
+    options: UseDataTableOptions<T, F> & { adapter: (value: unknown) => Paginator<T> },
+): UseDataTableReturn<T, F> | UseSimpleDataTableReturn<T, F> | UseCursorDataTableReturn<T, F>
+export function useDataTable<T, F extends object = Record<string, unknown>>(
+    paginator: MaybeRefOrGetter<unknown>,
+    options: UseDataTableOptions<T, F> = {},
+): UseDataTableReturn<T, F> | UseSimpleDataTableReturn<T, F> | UseCursorDataTableReturn<T, F> {
+    const {
+        filters,
+        sort,
+        columns = [],
+        multiple = false,
+        debounce = {},
+        serializer = 'brackets',
+        types = {},
+        schema = {},
+        namespace,
+        preserveQuery = true,
+        exceptQuery = [],
+        preserveScroll = true,
+        replace,
+        only = [],
+        adapter,
+        onEachSide,
+        onEnds,
+        remember,
+    } = options
+
+    const source = computed(() => resolvePaginator<T>(toValue(paginator), adapter))
+    const type = computed(() => detectPaginatorType(source.value))
+
+    // Reading the paginator (items, meta, page window) is usePagination's
+    // job; navigation goes through this table's scheduler instead.
+    const pagination = usePagination<T>(paginator, {
+        adapter: (value) => resolvePaginator<T>(value, adapter),
+        onEachSide,
+        onEnds,
+    })
+
+    // -------------------------------------------------------
+    // Query state
+    // -------------------------------------------------------
+
+    // Filter changes replace the history entry like useFilters does;
+    // sort and page changes push one like useSorting and usePagination
+    let replaceNext = false
+
+    const filterState = createFilterState<F>(() => ({ ...toValue(filters) }) as F, {
+        serializer,
+        types,
+        schema,
+        preserveQuery,
+        exceptQuery,
+        namespace,
+        onChange: (key) => {
+            resetPosition()
+            replaceNext = true
+            scheduler.schedule((debounce as Partial<Record<string, number>>)[key])
+        },
+        onCommit: () => {
+            resetPosition()
+            replaceNext = true
+            scheduler.visit()
+        },
+    })
+
+    const readSorts = (): SortState[] => {
+        const value = toValue(sort)
+        if (Array.isArray(value)) return value
+        if (value?.field) return [value]
+
+        const params = getCurrentUrl().searchParams
+        if (multiple) return parseSortParam(params.get('sort'))
+
+        const field = params.get('sort')
+        return field ? [{ field, direction: params.get('direction') === 'desc' ? 'desc' : 'asc' }] : []
+    }
+
+    const sortState = shallowRef<SortState[]>(readSorts())
+    watch(() => toValue(sort), () => {
+        sortState.value = readSorts()
+    }, { deep: true })
+
+    const currentPage = computed(() => {
+        const p = source.value
+        return 'current_page' in p ? p.current_page : 1
+    })
+
+    const initialPerPage = Number(getCurrentUrl().searchParams.get('per_page'))
+    let page = currentPage.value
+    let cursor: string | null = getCurrentUrl().searchParams.get('cursor')
+    let perPage: number | null = initialPerPage > 0 ? initialPerPage : null
+
+    // Follow the page the server actually returned
+    watch(currentPage, (value) => {
+        page = value
+    })
+
+    const resetPosition = (): void => {
+        page = 1
+        cursor = null
+    }
+
+    // -------------------------------------------------------
+    // Visits
+    // -------------------------------------------------------
+
+    const isOwnedParam = (key: string): boolean => {
+        return TABLE_PARAMS.includes(key.split('[')[0]) || filterState.isFilterParam(key)
+    }
+
+    const buildUrl = (): string | null => {
+        // Hold the visit back until the user fixes the value
+        if (!filterState.isValid.value) return null
+
+        const currentUrl = getCurrentUrl()
+        const params = new URLSearchParams()
+
+        currentUrl.searchParams.forEach((value, key) => {
+            if (!isOwnedParam(key) && filterState.isPreserved(key)) params.append(key, value)
+        })
+
+        filterState.appendTo(params)
+
+        const sorts = sortState.value
+        if (multiple && sorts.length > 0) {
+            params.set('sort', serializeSortParam(sorts))
+        } else if (sorts.length > 0) {
+            params.set('sort', sorts[0].field)
+            params.set('direction', sorts[0].direction)
+        }
+
+        if (perPage !== null) params.set('per_page', String(perPage))
+
+        if (type.value === 'cursor') {
+            if (cursor) params.set('cursor', cursor)
+        } else if (page > 1) {
+            params.set('page', String(page))
+        }
+
+        const queryString = params.toString()
+        return queryString
+            ? `${currentUrl.pathname}?${queryString}`
+            : currentUrl.pathname
+    }
+
+    const scheduler = createVisitScheduler(buildUrl, {
+        preserveScroll,
+        replace: () => replace ?? replaceNext,
+        only,
+        onDispatch: filterState.clearUnsent,
+    })
+
+    // Sort and page changes push a history entry
+    const visit = (): void => {
+        replaceNext = false
+        scheduler.visit()
+    }
+
+    onUnmounted(scheduler.dispose)
+
+    rememberQuery(remember)
+
+    // -------------------------------------------------------
+    // Filters
+    // -------------------------------------------------------
+
+    const cancel = (): void => {
+        scheduler.cancel()
+        filterState.clearUnsent()
+    }
+
+    // -------------------------------------------------------
+    // Sorting
+    // -------------------------------------------------------
+
+    const sorts = computed(() => sortState.value)
+
+    const sortBy = (field: string, additive = false): void => {
+        sortState.value = nextSorts(sortState.value, field, { multiple, additive })
+        resetPosition()
+        visit()
+    }
+
+    const isSortedBy = (field: string): boolean => sorts.value.some((s) => s.field === field)
+
+    const sortIndex = (field: string): number | null => {
+        const index = sorts.value.findIndex((s) => s.field === field)
+        return index === -1 ? null : index + 1
+    }
+
+    const directionOf = (field: string): SortDirection | null => {
+        return sorts.value.find((s) => s.field === field)?.direction ?? null
+    }
+
+    // -------------------------------------------------------
+    // Pagination
+    // -------------------------------------------------------
+
+    const goToPage = (target: number): void => {
+        if (target < 1 || target === currentPage.value) return
+
+        // Simple paginators don't know the last page, only whether there's a next one
+        const p = source.value
+        const outOfRange = 'last_page' in p
+            ? target > p.last_page
+            : target > currentPage.value && !pagination.hasNext.value
+        if (outOfRange) return
+
+        page = target
+        visit()
+    }
+
+    const nextPage = (): void => {
+        if (!pagination.hasNext.value) return
+
+        if (type.value === 'cursor') {
+            cursor = (source.value as CursorPage<T>).next_cursor
+            visit()
+            return
+        }
+
+        goToPage(currentPage.value + 1)
+    }
+
+    const prevPage = (): void => {
+        if (!pagination.hasPrev.value) return
+
+        if (type.value === 'cursor') {
+            cursor = (source.value as CursorPage<T>).prev_cursor
+            visit()
+            return
+        }
+
+        goToPage(currentPage.value - 1)
+    }
+
+    const updatePerPage = (newPerPage: number): void => {
+        perPage = newPerPage
+        resetPosition()
+        visit()
+    }
+
+    // -------------------------------------------------------
+    // Columns
+    // -------------------------------------------------------
+
+    const columnStates = computed<DataTableColumnState[]>(() => {
+        return columns.map((column) => {
+            const sortField = column.sortable
+                ? (typeof column.sortable === 'string' ? column.sortable : column.key)
+                : null
+
+            const filterKey = column.filterable
+                ? (typeof column.filterable === 'string' ? column.filterable : column.key)
+                : null
+
+            return {
+                key: column.key,
+                label: column.label ?? humanize(column.key),
+                sortable: sortField !== null,
+                sortField,
+                filterable: filterKey !== null && filterKey in filterState.values,
+                filterKey,
+                direction: sortField ? directionOf(sortField) : null,
+                sortIndex: sortField ? sortIndex(sortField) : null,
+            }
+        })
+    })
+
+    const base = {
+        items: pagination.items,
+        nextPage,
+        prevPage,
+        updatePerPage,
+        hasNext: pagination.hasNext,
+        hasPrev: pagination.hasPrev,
+        values: filterState.values,
+        update: filterState.update,
+        updateMany: filterState.updateMany,
+        reset: filterState.reset,
+        resetField: filterState.resetField,
+        isDirty: filterState.isDirty,
+        activeCount: filterState.activeCount,
+        errors: filterState.errors,
+        isValid: filterState.isValid,
+        sortBy,
+        isSortedBy,
+        sorts,
+        sortIndex,
+        directionOf,
+        columns: columnStates,
+        isLoading: scheduler.isLoading,
+        flush: scheduler.flush,
+        cancel,
+    }
+
+    if (!('pages' in pagination)) {
+        return { ...base, meta: pagination.meta } as UseCursorDataTableReturn<T, F>
+    }
+
+    const paged = {
+        ...base,
+        goToPage,
+        isFirstPage: pagination.isFirstPage,
+        isLastPage: pagination.isLastPage,
+        pages: pagination.pages,
+    }
+
+    return type.value === 'simple'
+        ? { ...paged, meta: pagination.meta } as UseSimpleDataTableReturn<T, F>
+        : { ...paged, meta: pagination.meta } as UseDataTableReturn<T, F>
+}
@@ -0,0 +1,116 @@
+import { computed, ref, shallowRef } from 'vue'
+import { getCurrentUrl } from '../utils/ssr'
+import { isEmptyValue, isEqual } from '../utils/query'
+import { createLocalPresetStorage } from '../stores/presets'
+import type {
+    FilterPreset,
+    FilterPresetState,
+    UseFilterPresetsOptions,
+    UseFilterPresetsReturn,
+} from '../types'
+
+/**
+ * Named presets for a `useFilters` (or `useDataTable`) form: save the
+ * current values, apply them again later, and see which preset — if any —
+ * matches what's on screen.
+ *
+ * Presets are scoped to the current path and kept in localStorage unless
+ * another `storage` is given, such as `createHttpPresetStorage()` to keep
+ * them on the server.
+ *
+ * @example
+ * const filters = useFilters(() => props.filters)
+ * const { presets, savePreset, applyPreset, deletePreset } = useFilterPresets(filters)
+ *
+ * await savePreset('Overdue this month')
+ * applyPreset('Overdue this month')
+ *
+ * // <button v-for="preset in presets" :class="{ active: preset.active }" @click="applyPreset(preset.name)">
+ */
+export function useFilterPresets<T extends object>(
+    filters: { values: T; updateMany: (updates: Partial<T>) => void },
+    options: UseFilterPresetsOptions = {},
+): UseFilterPresetsReturn<T> {
+    const {
+        storage = createLocalPresetStorage(),
+        scope = getCurrentUrl().pathname,
+    } = options
+
+    const stored = shallowRef<FilterPreset<T>[]>([])
+    const pending = ref(0)
+
+    const track = async <R>(work: () => R | Promise<R>): Promise<R> => {
+        pending.value++
+        try {
+            return await work()
+        } finally {
+            pending.value--
+        }
+    }
+
+    // Presets go through JSON on their way to storage, so the current
+    // values are compared in the same form (dates become strings)
+    const snapshot = (): Partial<T> => JSON.parse(JSON.stringify(filters.values))
+
+    const matches = (preset: FilterPreset<T>, current: Partial<T>): boolean => {
+        const saved = preset.values as Record<string, unknown>
+        const values = current as Record<string, unknown>
+        const keys = new Set([...Object.keys(saved), ...Object.keys(values)])
+
+        // Filters added since the preset was saved must be off
+        return [...keys].every((key) => {
+            return key in saved ? isEqual(saved[key], values[key]) : isEmptyValue(values[key])
+        })
+    }
+
+    const activePreset = computed(() => {
+        const current = snapshot()
+        return stored.value.find((preset) => matches(preset, current)) ?? null
+    })
+
+    const presets = computed<FilterPresetState<T>[]>(() => {
+        return stored.value.map((preset) => ({ ...preset, active: preset === activePreset.value }))
+    })
+
+    const loaded = storage.load(scope) as FilterPreset<T>[] | Promise<FilterPreset<T>[]>
+    if (Array.isArray(loaded)) {
+        stored.value = loaded
+    } else {
+        track(() => loaded)
+            .then((list) => {
+                stored.value = list
+            })
+            // A failed load just leaves the list empty
+            .catch(() => {})
+    }
+
+    const savePreset = async (name: string): Promise<void> => {
+        const trimmed = name.trim()
+        if (!trimmed) return
+
+        const preset: FilterPreset<T> = { name: trimmed, values: snapshot() }
+        await track(() => storage.save(scope, preset as FilterPreset))
+
+        stored.value = [...stored.value.filter((p) => p.name !== trimmed), preset]
+    }
+
+    const applyPreset = (name: string): void => {
+        const preset = stored.value.find((p) => p.name === name)
+        if (preset) filters.updateMany(preset.values)
+    }
+
+    const deletePreset = async (name: string): Promise<void> => {
+        await track(() => storage.delete(scope, name))
+
+        stored.value = stored.value.filter((p) => p.name !== name)
+    }
+
+    return {
+        presets,
+        activePreset,
+        savePreset,
+        applyPreset,
+        deletePreset,
+        isLoading: computed(() => pending.value > 0),
+    }
+}
@@ -1,12 +1,45 @@
-import { computed, reactive, ref, watch, onUnmounted, type MaybeRefOrGetter, toValue } from 'vue'
-import { router } from '@inertiajs/vue3'
+import { onUnmounted, type MaybeRefOrGetter } from 'vue'
 import { getCurrentUrl } from '../utils/ssr'
-import type { UseFiltersReturn, UseFiltersOptions } from '../types'
+import { createVisitScheduler } from '../utils/visit'
+import { createFilterState } from '../utils/filters'
+import { rememberQuery } from '../utils/remember'
+import type {
+    UseFiltersReturn,
+    UseFiltersOptions,
+    FilterSchema,
+    InferFilterValues,
+} from '../types'
 
 /**
  * Syncs a filter form with URL query parameters via Inertia visits.
  * Supports per-field debouncing, dirty tracking, and active filter counting.
  *
+ * All changes go through one scheduler: overlapping updates collapse into a
+ * single visit, a new visit cancels the one still in flight, and resets
+ * replace any pending debounced visit. `flush()` sends a pending visit now;
+ * `cancel()` drops it along with any in-flight request.
+ *
+ * Arrays and nested objects are serialized with Laravel-style brackets by
+ * default (`status[]=a&filter[price][min]=10`). Declare `types` to coerce
+ * the string values the server sends back into numbers, booleans or arrays.
+ * Filters missing from the props are read back from the URL.
+ *
+ * A `schema` goes further: each field declares its type, allowed values,
+ * bounds and default. Values from props are coerced, and ones that don't
+ * fit fall back to the default; local changes are checked into `errors`,
+ * and no visit is made while any field is invalid. Dirty tracking compares
+ * values as their declared type, so `'5'` equals `5` and array order
+ * doesn't count.
+ *
+ * Query params that aren't filters — `sort` from `useSorting`, `per_page`
+ * from `usePagination` — are kept by default; `preserveQuery` and
+ * `exceptQuery` narrow that down. With `namespace`, filters are nested under
+ * one key (`filter[search]=…`) so they can't collide with other params.
+ *
+ * With `remember`, the page's last query is kept in sessionStorage and
+ * restored when the page is opened again without one — see `forgetQuery()`
+ * to clear it.
+ *
  * The returned `values` object supports direct v-model binding:
  *
  * @example
@@ -17,8 +50,25 @@ import type { UseFiltersReturn, UseFiltersOptions } from '../types'
  *
  * // In template:
  * // <Input v-model="values.search" />
+ *
+ * // With a schema, `values` is typed from it:
+ * const { values, errors } = useFilters(() => props.filters, {
+ *     schema: {
+ *         status: { type: 'string', enum: ['active', 'banned'] },
+ *         min_price: { type: 'number', min: 0 },
+ *         since: { type: 'date' },
+ *     },
+ * })
  */
+export function useFilters<const S extends FilterSchema>(
+    defaults: MaybeRefOrGetter<Partial<Record<keyof S, unknown>>>,
+    options: UseFiltersOptions<InferFilterValues<S>> & { schema: S },
+): UseFiltersReturn<InferFilterValues<S>>
 export function useFilters<T extends Record<string, any>>(
+    defaults: MaybeRefOrGetter<T>,
+    options?: UseFiltersOptions<T>,
+): UseFiltersReturn<T>
+export function useFilters<T extends Record<string, unknown>>(
     defaults: MaybeRefOrGetter<T>,
     options: UseFiltersOptions<T> = {},
 ): UseFiltersReturn<T> {
@@ -27,146 +77,83 @@ export function useFilters<T extends Record<string, any>>(
         preserveScroll = true,
         replace = true,
         only = [],
+        serializer = 'brackets',
+        types = {},
+        schema = {},
+        preserveQuery = true,
+        exceptQuery = [],
+        namespace,
+        remember,
     } = options
 
-    const _isLoading = ref(false)
-    const debounceTimers = new Map<string, ReturnType<typeof setTimeout>>()
-
-    // Internal reactive state — used for all internal reads/writes
-    const _values = reactive({ ...toValue(defaults) }) as T
+    const state = createFilterState(defaults, {
+        serializer,
+        types,
+        schema,
+        preserveQuery,
+        exceptQuery,
+        namespace,
+        // Debounced fields restart the shared timer; anything else visits
+        // straight away, taking pending debounced changes with it.
+        onChange: (key) => scheduler.schedule((debounce as Partial<Record<string, number>>)[key]),
+        // Bulk changes and resets replace any pending debounced visit
+        onCommit: () => scheduler.visit(),
+    })
 
-    // Re-sync values when defaults change (e.g., after an Inertia visit)
-    watch(
-        () => toValue(defaults),
-        (newDefaults) => {
-            Object.keys(newDefaults).forEach((key) => {
-                ;(_values as Record<string, unknown>)[key] = newDefaults[key]
-            })
-        },
-        { deep: true },
-    )
+    const buildUrl = (): string | null => {
+        // Hold the visit back until the user fixes the value
+        if (!state.isValid.value) return null
 
-    const visit = (): void => {
         const currentUrl = getCurrentUrl()
-        const params = new URLSearchParams()
-        const defaultValues = toValue(defaults)
 
-        // Only include non-default values in the URL
-        Object.entries(_values).forEach(([key, value]) => {
-            if (value !== '' && value !== null && value !== undefined && value !== defaultValues[key]) {
-                params.set(key, String(value))
-            }
+        // Keep params that belong to others on the page (sort, per_page, …)
+        const params = new URLSearchParams()
+        currentUrl.searchParams.forEach((value, key) => {
+            if (!state.isFilterParam(key) && state.isPreserved(key)) params.append(key, value)
         })
 
-        // Reset to page 1 when filters change
+        state.appendTo(params)
+
+        // Reset to page 1 when filters change; a cursor
+        // belongs to the old result set
         params.delete('page')
+        params.delete('cursor')
 
         const queryString = params.toString()
-        const url = queryString
+        return queryString
             ? `${currentUrl.pathname}?${queryString}`
             : currentUrl.pathname
-
-        _isLoading.value = true
-
-        router.visit(url, {
-            preserveScroll,
-            replace,
-            only: only.length > 0 ? only : undefined,
-            onFinish: () => {
-                _isLoading.value = false
-            },
-        })
     }
 
-    const scheduleVisit = (key: string): void => {
-        const existingTimer = debounceTimers.get(key)
-        if (existingTimer) {
-            clearTimeout(existingTimer)
-        }
-
-        const debounceMs = (debounce as Partial<Record<string, number>>)[key]
-
-        if (debounceMs && typeof debounceMs === 'number') {
-            const timer = setTimeout(() => {
-                visit()
-                debounceTimers.delete(key)
-            }, debounceMs)
-            debounceTimers.set(key, timer)
-        } else {
-            visit()
-        }
-    }
-
-    // Writable proxy — setting a property triggers a debounced Inertia visit.
-    // Supports v-model binding: <Input v-model="values.search" />
-    const values = new Proxy(_values, {
-        set(target, prop, value) {
-            const result = Reflect.set(target, prop, value)
-            if (typeof prop === 'string' && prop in toValue(defaults)) {
-                scheduleVisit(prop)
-            }
-            return result
-        },
-    }) as T
-
-    const update = <K extends keyof T>(key: K, value: T[K]): void => {
-        ;(_values as Record<string, unknown>)[key as string] = value
-        scheduleVisit(key as string)
-    }
-
-    const updateMany = (updates: Partial<T>): void => {
-        Object.entries(updates).forEach(([key, value]) => {
-            ;(_values as Record<string, unknown>)[key] = value
-        })
-        visit()
-    }
-
-    const reset = (): void => {
-        const defaultValues = toValue(defaults)
-        Object.keys(_values).forEach((key) => {
-            ;(_values as Record<string, unknown>)[key] = defaultValues[key] ?? ''
-        })
-        visit()
-    }
+    const scheduler = createVisitScheduler(buildUrl, {
+        preserveScroll,
+        replace,
+        only,
+        onDispatch: state.clearUnsent,
+    })
 
-    const resetField = <K extends keyof T>(key: K): void => {
-        const defaultValues = toValue(defaults)
-        ;(_values as Record<string, unknown>)[key as string] = defaultValues[key] ?? ''
-        visit()
+    const cancel = (): void => {
+        scheduler.cancel()
+        state.clearUnsent()
     }
 
-    const isDirty = computed(() => {
-        const defaultValues = toValue(defaults)
-        return Object.keys(_values).some((key) => {
-            const current = (_values as Record<string, unknown>)[key]
-            const def = defaultValues[key] ?? ''
-            return current !== def
-        })
-    })
-
-    const activeCount = computed(() => {
-        const defaultValues = toValue(defaults)
-        return Object.keys(_values).filter((key) => {
-            const current = (_values as Record<string, unknown>)[key]
-            const def = defaultValues[key] ?? ''
-            return current !== '' && current !== null && current !== undefined && current !== def
-        }).length
-    })
+    // Drop any pending debounced visit on unmount
+    onUnmounted(scheduler.dispose)
 
-    // Clean up debounce timers on unmount
-    onUnmounted(() => {
-        debounceTimers.forEach((timer) => clearTimeout(timer))
-        debounceTimers.clear()
-    })
+    rememberQuery(remember)
 
     return {
-        values,
-        update,
-        updateMany,
-        reset,
-        resetField,
-        isDirty,
-        activeCount,
-        isLoading: computed(() => _isLoading.value),
+        values: state.values,
+        update: state.update,
+        updateMany: state.updateMany,
+        reset: state.reset,
+        resetField: state.resetField,
+        isDirty: state.isDirty,
+        activeCount: state.activeCount,
+        isLoading: scheduler.isLoading,
+        errors: state.errors,
+        isValid: state.isValid,
+        flush: scheduler.flush,
+        cancel,
     }
 }
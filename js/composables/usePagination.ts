@@ -1,38 +1,169 @@
-import { computed, ref, type MaybeRefOrGetter, toValue } from 'vue'
+import { computed, ref, watch, shallowRef, type MaybeRefOrGetter, toValue } from 'vue'
 import { router } from '@inertiajs/vue3'
 import { getCurrentUrl, getOrigin } from '../utils/ssr'
-import type { UsePaginationReturn, UsePaginationOptions, PaginationMeta, InertiaPage } from '../types'
+import { buildPageWindow, detectPaginatorType, resolvePaginator } from '../utils/paginator'
+import { rememberQuery } from '../utils/remember'
+import type {
+    UsePaginationReturn,
+    UseSimplePaginationReturn,
+    UseCursorPaginationReturn,
+    UsePaginationOptions,
+    PaginationMeta,
+    PaginationPageItem,
+    SimplePaginationMeta,
+    CursorPaginationMeta,
+    InertiaPage,
+    SimplePage,
+    CursorPage,
+    Paginator,
+    ResourcePage,
+    SimpleResourcePage,
+    CursorResourcePage,
+    AnyResourcePage,
+} from '../types'
 
 /**
  * Wraps a Laravel paginator response with reactive controls and Inertia navigation.
  *
+ * Accepts the output of `paginate()`, `simplePaginate()` or `cursorPaginate()`,
+ * either as-is or wrapped in an API Resource collection (where pagination is
+ * nested under `meta` and `links`). Other shapes can be mapped with `adapter`.
+ * The paginator type is detected from the payload, and `meta` only exposes
+ * the fields that paginator actually provides — cursor paginators have no
+ * page numbers, and neither simple nor cursor paginators have totals.
+ *
+ * `pages` is a windowed list of page numbers with `'…'` gaps, built on the
+ * client so it doesn't depend on Laravel's translated link labels.
+ *
+ * With `infinite: true`, `loadMore()` fetches the next page with a partial
+ * reload and appends its rows to `items`, skipping rows whose `itemKey` has
+ * already been loaded. Bind `sentinel` to an element at the end of the list
+ * to load more automatically as it scrolls into view.
+ *
  * @example
  * const { items, meta, nextPage, prevPage, goToPage } = usePagination(() => props.users)
+ *
+ * // Cursor pagination:
+ * const { items, nextPage, hasNext } = usePagination(() => props.events)
+ *
+ * // Infinite scroll:
+ * const { items, sentinel, hasMore } = usePagination(() => props.posts, {
+ *     infinite: true,
+ *     only: ['posts'],
+ * })
+ * // <div ref="sentinel" />
  */
 export function usePagination<T>(
-    paginator: MaybeRefOrGetter<InertiaPage<T>>,
-    options: UsePaginationOptions = {},
-): UsePaginationReturn<T> {
+    paginator: MaybeRefOrGetter<InertiaPage<T> | ResourcePage<T>>,
+    options?: UsePaginationOptions<T>,
+): UsePaginationReturn<T>
+export function usePagination<T>(
+    paginator: MaybeRefOrGetter<SimplePage<T> | SimpleResourcePage<T>>,
+    options?: UsePaginationOptions<T>,
+): UseSimplePaginationReturn<T>
+export function usePagination<T>(
+    paginator: MaybeRefOrGetter<CursorPage<T> | CursorResourcePage<T>>,
+    options?: UsePaginationOptions<T>,
+): UseCursorPaginationReturn<T>
+export function usePagination<T>(
+    paginator: MaybeRefOrGetter<Paginator<T> | AnyResourcePage<T>>,
+    options?: UsePaginationOptions<T>,
+): UsePaginationReturn<T> | UseSimplePaginationReturn<T> | UseCursorPaginationReturn<T>
+export function usePagination<T>(
+    paginator: MaybeRefOrGetter<unknown>,
+    options: UsePaginationOptions<T> & { adapter: (value: unknown) => Paginator<T> },
+): UsePaginationReturn<T> | UseSimplePaginationReturn<T> | UseCursorPaginationReturn<T>
+export function usePagination<T>(
+    paginator: MaybeRefOrGetter<unknown>,
+    options: UsePaginationOptions<T> = {},
+): UsePaginationReturn<T> | UseSimplePaginationReturn<T> | UseCursorPaginationReturn<T> {
     const {
         preserveQuery = [],
         preserveScroll = true,
         replace = false,
         only = [],
+        infinite = false,
+        itemKey = 'id' as keyof T,
+        rootMargin = '0px',
+        adapter,
+        onEachSide = 3,
+        onEnds = 2,
+        remember,
     } = options
 
+    rememberQuery(remember)
+
     const _isLoading = ref(false)
+    const loaded = shallowRef<T[]>([])
+    const sentinel = ref<HTMLElement | null>(null)
+    const sentinelVisible = ref(false)
+
+    // The page (or cursor) requested by loadMore(), until it arrives
+    let appending: number | string | null = null
+
+    const source = computed(() => resolvePaginator<T>(toValue(paginator), adapter))
+    const type = computed(() => detectPaginatorType(source.value))
+
+    const keyOf = (item: T): unknown => {
+        if (typeof itemKey === 'function') return itemKey(item)
+        return item !== null && typeof item === 'object' ? item[itemKey] : undefined
+    }
+
+    // Accumulate pages in infinite mode. Only the page requested through
+    // loadMore() is appended — any other visit starts a fresh list.
+    // Cursor payloads don't echo their own cursor, so for those the next
+    // payload after loadMore() is taken to be the requested one.
+    watch(
+        source,
+        (p) => {
+            if (!infinite) return
+
+            const data = p.data
+            const isAppend = appending !== null
+                && ('current_page' in p ? p.current_page === appending : true)
+            appending = null
+
+            if (!isAppend) {
+                loaded.value = [...data]
+                return
+            }
+
+            const positions = new Map<unknown, number>()
+            loaded.value.forEach((item, index) => {
+                const key = keyOf(item)
+                if (key !== undefined) positions.set(key, index)
+            })
+
+            const merged = [...loaded.value]
+            data.forEach((item) => {
+                const key = keyOf(item)
+                const existing = key === undefined ? undefined : positions.get(key)
+
+                // Rows that shifted onto the next page replace their earlier copy
+                if (existing !== undefined) {
+                    merged[existing] = item
+                } else {
+                    merged.push(item)
+                }
+            })
+
+            loaded.value = merged
+        },
+        { immediate: true },
+    )
 
     const items = computed<T[]>(() => {
-        return toValue(paginator).data
+        return infinite ? loaded.value : source.value.data
     })
 
     const meta = computed<PaginationMeta>(() => {
-        const p = toValue(paginator)
+        const p = source.value as InertiaPage<T>
         const origin = getOrigin()
 
-        // Parse Laravel's pagination links into a cleaner format
+        // Parse Laravel's pagination links into a cleaner format. The first and
+        // last links are always previous/next, whatever their translated labels.
         const links = p.links
-            .filter((link) => link.label !== '&laquo; Previous' && link.label !== 'Next &raquo;')
+            .slice(1, -1)
             .map((link) => {
                 const pageNumber = link.url
                     ? parseInt(new URL(link.url, origin).searchParams.get('page') || '1', 10)
@@ -57,7 +188,57 @@ export function usePagination<T>(
         }
     })
 
-    const navigate = (params: Record<string, string | number>): void => {
+    const simpleMeta = computed<SimplePaginationMeta>(() => {
+        const p = source.value as SimplePage<T>
+
+        return {
+            currentPage: p.current_page,
+            perPage: p.per_page,
+            from: p.from,
+            to: p.to,
+        }
+    })
+
+    const cursorMeta = computed<CursorPaginationMeta>(() => {
+        const p = source.value as CursorPage<T>
+
+        return {
+            perPage: p.per_page,
+            nextCursor: p.next_cursor,
+            prevCursor: p.prev_cursor,
+        }
+    })
+
+    const currentPage = computed(() => {
+        const p = source.value
+        return 'current_page' in p ? p.current_page : 1
+    })
+
+    const perPage = computed(() => source.value.per_page)
+
+    const hasNext = computed(() => {
+        const p = source.value
+        switch (type.value) {
+            case 'length-aware':
+                return (p as InertiaPage<T>).current_page < (p as InertiaPage<T>).last_page
+            case 'simple':
+                return (p as SimplePage<T>).next_page_url !== null
+            case 'cursor':
+                return (p as CursorPage<T>).next_cursor !== null
+        }
+    })
+
+    const hasPrev = computed(() => {
+        const p = source.value
+        return type.value === 'cursor'
+            ? (p as CursorPage<T>).prev_cursor !== null
+            : currentPage.value > 1
+    })
+
+    const navigate = (
+        params: Record<string, string | number>,
+        visitOptions: { preserveScroll?: boolean; preserveState?: boolean; replace?: boolean } = {},
+    ): void => {
         const currentUrl = getCurrentUrl()
 
         // Preserve specified query params
@@ -88,6 +269,7 @@ export function usePagination<T>(
             preserveScroll,
             replace,
             only: only.length > 0 ? only : undefined,
+            ...visitOptions,
             onFinish: () => {
                 _isLoading.value = false
             },
@@ -95,42 +277,113 @@ export function usePagination<T>(
     }
 
     const goToPage = (page: number): void => {
-        const m = meta.value
-        if (page < 1 || page > m.lastPage || page === m.currentPage) return
+        const current = currentPage.value
+        if (page < 1 || page === current) return
 
-        navigate({ page, per_page: m.perPage })
+        // Simple paginators don't know the last page, only whether there's a next one
+        const outOfRange = type.value === 'length-aware'
+            ? page > meta.value.lastPage
+            : page > current && !hasNext.value
+        if (outOfRange) return
+
+        navigate({ page, per_page: perPage.value })
     }
 
     const nextPage = (): void => {
-        const m = meta.value
-        if (m.currentPage < m.lastPage) {
-            goToPage(m.currentPage + 1)
+        if (!hasNext.value) return
+
+        if (type.value === 'cursor') {
+            navigate({ cursor: cursorMeta.value.nextCursor ?? '', per_page: perPage.value })
+            return
         }
+
+        goToPage(currentPage.value + 1)
     }
 
     const prevPage = (): void => {
-        const m = meta.value
-        if (m.currentPage > 1) {
-            goToPage(m.currentPage - 1)
+        if (!hasPrev.value) return
+
+        if (type.value === 'cursor') {
+            navigate({ cursor: cursorMeta.value.prevCursor ?? '', per_page: perPage.value })
+            return
         }
+
+        goToPage(currentPage.value - 1)
     }
 
-    const updatePerPage = (perPage: number): void => {
-        navigate({ page: 1, per_page: perPage })
+    const updatePerPage = (newPerPage: number): void => {
+        navigate(type.value === 'cursor' ? { per_page: newPerPage } : { page: 1, per_page: newPerPage })
     }
 
-    const isFirstPage = computed(() => meta.value.currentPage === 1)
-    const isLastPage = computed(() => meta.value.currentPage === meta.value.lastPage)
+    const pages = computed<PaginationPageItem[]>(() => {
+        // Simple paginators only know whether a next page exists
+        const lastPage = type.value === 'length-aware'
+            ? meta.value.lastPage
+            : currentPage.value + (hasNext.value ? 1 : 0)
 
-    return {
+        return buildPageWindow(currentPage.value, lastPage, onEachSide, onEnds)
+    })
+
+    const isFirstPage = computed(() => !hasPrev.value)
+    const isLastPage = computed(() => !hasNext.value)
+
+    const loadMore = (): void => {
+        if (!hasNext.value || _isLoading.value) return
+
+        const loadOptions = { preserveScroll: true, preserveState: true, replace: true }
+
+        if (type.value === 'cursor') {
+            const cursor = cursorMeta.value.nextCursor ?? ''
+            appending = cursor
+            navigate({ cursor, per_page: perPage.value }, loadOptions)
+            return
+        }
+
+        appending = currentPage.value + 1
+        navigate({ page: currentPage.value + 1, per_page: perPage.value }, loadOptions)
+    }
+
+    // Load the next page whenever the sentinel is in view and idle. Watching
+    // isLoading too means a short page keeps loading until the sentinel is
+    // pushed out of view.
+    watch(sentinel, (el, _, onCleanup) => {
+        sentinelVisible.value = false
+        if (!el || typeof IntersectionObserver === 'undefined') return
+
+        const observer = new IntersectionObserver(
+            (entries) => {
+                sentinelVisible.value = entries.some((entry) => entry.isIntersecting)
+            },
+            { rootMargin },
+        )
+        observer.observe(el)
+
+        onCleanup(() => observer.disconnect())
+    })
+
+    watch([sentinelVisible, _isLoading], ([visible, loading]) => {
+        if (visible && !loading) loadMore()
+    })
+
+    const base = {
         items,
-        meta,
-        goToPage,
         nextPage,
         prevPage,
         updatePerPage,
-        isFirstPage,
-        isLastPage,
+        hasNext,
+        hasPrev,
         isLoading: computed(() => _isLoading.value),
+        loadMore,
+        hasMore: hasNext,
+        sentinel,
+    }
+
+    switch (type.value) {
+        case 'cursor':
+            return { ...base, meta: cursorMeta }
+        case 'simple':
+            return { ...base, meta: simpleMeta, goToPage, isFirstPage, isLastPage, pages }
+        default:
+            return { ...base, meta, goToPage, isFirstPage, isLastPage, pages }
     }
 }
@@ -0,0 +1,96 @@
+import { getCurrentInstance, onUnmounted } from 'vue'
+import { router } from '@inertiajs/vue3'
+import { useAuth } from './useAuth'
+import { resolveFlashStore } from '../stores/flash'
+import { getOrigin } from '../utils/ssr'
+import { matchesGlob } from '../utils/permissions'
+import type {
+    RouteGuardRule,
+    UseRouteGuardOptions,
+    UseRouteGuardReturn,
+    VisitMethod,
+} from '../types'
+
+const DEFAULT_MESSAGE = 'You are not authorized to access that page.'
+
+const matchesRule = (rule: RouteGuardRule, url: URL, method: VisitMethod): boolean => {
+    if (rule.methods && !rule.methods.includes(method)) return false
+
+    return typeof rule.pattern === 'string'
+        ? matchesGlob(rule.pattern, url.pathname)
+        : rule.pattern.test(url.pathname)
+}
+
+/**
+ * Blocks Inertia visits the user clearly can't access, before they're sent.
+ *
+ * Each rule maps a path pattern to the roles and/or abilities it needs,
+ * checked with `useAuth()`. A visit matching a rule the user fails is
+ * cancelled — or redirected, with `redirect` — and an error is flashed
+ * through the shared flash store. Visits to other origins are left alone.
+ *
+ * This only saves a round-trip: the server must still authorize every
+ * request. The guard stops when the calling component unmounts.
+ *
+ * @example
+ * useRouteGuard([
+ *     { pattern: '/admin/*', roles: ['admin'] },
+ *     { pattern: '/billing/*', abilities: ['billing.manage'], redirect: '/dashboard' },
+ * ])
+ */
+export function useRouteGuard(
+    rules: RouteGuardRule[],
+    options: UseRouteGuardOptions = {},
+): UseRouteGuardReturn {
+    const { redirect, message = DEFAULT_MESSAGE, auth: authOptions } = options
+    const { hasAnyRole, hasAllRoles, canAny, canAll } = useAuth(authOptions)
+    const flash = resolveFlashStore()
+
+    const passes = (rule: RouteGuardRule): boolean => {
+        const roles: string[] = rule.roles ?? []
+        const abilities: string[] = rule.abilities ?? []
+
+        const rolesPass = roles.length === 0 || (rule.all ? hasAllRoles(...roles) : hasAnyRole(...roles))
+        const abilitiesPass = abilities.length === 0 || (rule.all ? canAll(...abilities) : canAny(...abilities))
+
+        return rolesPass && abilitiesPass
+    }
+
+    const deniedBy = (url: URL, method: VisitMethod): RouteGuardRule | undefined => {
+        if (url.origin !== getOrigin()) return undefined
+        return rules.find((rule) => matchesRule(rule, url, method) && !passes(rule))
+    }
+
+    const isAllowed = (url: string | URL, method: VisitMethod = 'get'): boolean => {
+        return deniedBy(new URL(url, getOrigin()), method) === undefined
+    }
+
+    const stop = router.on('before', (event) => {
+        const visit = event.detail.visit
+        const rule = deniedBy(visit.url, visit.method)
+        if (!rule) return
+
+        // Prefetching a forbidden page is cancelled quietly
+        if (visit.prefetch) return false
+
+        const text = rule.message ?? message
+        if (text) flash.error(text).send()
+
+        const target = rule.redirect ?? redirect
+        if (target && isAllowed(target)) {
+            // Start the redirect once this visit has been cancelled
+            Promise.resolve().then(() => router.visit(target))
+        }
+
+        return false
+    })
+
+    if (getCurrentInstance()) {
+        onUnmounted(stop)
+    }
+
+    return {
+        isAllowed,
+        stop,
+    }
+}
@@ -0,0 +1,209 @@
+import { computed, ref, shallowRef, watch, type MaybeRefOrGetter, toValue } from 'vue'
+import { router } from '@inertiajs/vue3'
+import { getCurrentUrl } from '../utils/ssr'
+import { resolveQuerySerializer } from '../utils/query'
+import type {
+    UseSelectionOptions,
+    UseSelectionReturn,
+    BulkActionOptions,
+    BulkActionPayload,
+    SelectionKey,
+} from '../types'
+
+const PAGINATION_PARAMS = ['page', 'cursor', 'per_page']
+
+// The request body type lives in @inertiajs/core, which isn't a direct dependency
+type VisitData = NonNullable<Parameters<typeof router.visit>[1]>['data']
+
+/**
+ * Checkbox selection for paginated tables, with bulk actions.
+ *
+ * Selected keys are kept across page changes. "Select all matching" switches
+ * to a mode where every row matching the current filters counts as selected
+ * (using `total` for the count) and unticked rows are tracked as exceptions
+ * instead — so the server can apply the action to rows the client has never
+ * loaded.
+ *
+ * `submit()` sends the selection as `{ ids }`, or as `{ all: true, query,
+ * except }` in "all matching" mode, plus any extra `data`.
+ *
+ * @example
+ * const { items, meta } = usePagination(() => props.users)
+ * const selection = useSelection(items, {
+ *     total: () => meta.value.total,
+ *     resetOn: () => props.filters,
+ * })
+ *
+ * // <input type="checkbox" :checked="selection.isPageSelected.value" @change="selection.togglePage" />
+ * // <input type="checkbox" :checked="selection.isSelected(user)" @change="selection.toggle(user)" />
+ * selection.submit('/users/bulk-archive')
+ */
+export function useSelection<T>(
+    items: MaybeRefOrGetter<T[]>,
+    options: UseSelectionOptions<T> = {},
+): UseSelectionReturn<T> {
+    const {
+        key = 'id' as keyof T,
+        total,
+        query,
+        resetOn,
+    } = options
+
+    // Sets are replaced rather than mutated so computeds pick up changes
+    const selected = shallowRef<Set<SelectionKey>>(new Set())
+    const excluded = shallowRef<Set<SelectionKey>>(new Set())
+    const allMatching = ref(false)
+    const _isSubmitting = ref(false)
+
+    const keyOf = (item: T): SelectionKey => {
+        if (typeof key === 'function') return key(item)
+        return (item as Record<keyof T, unknown>)[key] as SelectionKey
+    }
+
+    const pageKeys = computed(() => toValue(items).map(keyOf))
+
+    const isSelected = (item: T): boolean => {
+        const id = keyOf(item)
+        return allMatching.value ? !excluded.value.has(id) : selected.value.has(id)
+    }
+
+    // Adds to the selection, or removes exceptions in "all matching" mode
+    const include = (ids: SelectionKey[]): void => {
+        const target = allMatching.value ? excluded : selected
+        const next = new Set(target.value)
+        ids.forEach((id) => (allMatching.value ? next.delete(id) : next.add(id)))
+        target.value = next
+    }
+
+    const exclude = (ids: SelectionKey[]): void => {
+        const target = allMatching.value ? excluded : selected
+        const next = new Set(target.value)
+        ids.forEach((id) => (allMatching.value ? next.add(id) : next.delete(id)))
+        target.value = next
+    }
+
+    const select = (...list: T[]): void => include(list.map(keyOf))
+
+    const deselect = (...list: T[]): void => exclude(list.map(keyOf))
+
+    const toggle = (item: T): void => {
+        if (isSelected(item)) {
+            deselect(item)
+        } else {
+            select(item)
+        }
+    }
+
+    const clear = (): void => {
+        selected.value = new Set()
+        excluded.value = new Set()
+        allMatching.value = false
+    }
+
+    const isPageSelected = computed(() => {
+        return toValue(items).length > 0 && toValue(items).every(isSelected)
+    })
+
+    const isPagePartiallySelected = computed(() => {
+        return !isPageSelected.value && toValue(items).some(isSelected)
+    })
+
+    const selectPage = (): void => include(pageKeys.value)
+
+    const deselectPage = (): void => exclude(pageKeys.value)
+
+    const togglePage = (): void => {
+        if (isPageSelected.value) {
+            deselectPage()
+        } else {
+            selectPage()
+        }
+    }
+
+    const selectAllMatching = (): void => {
+        selected.value = new Set()
+        excluded.value = new Set()
+        allMatching.value = true
+    }
+
+    const selectedCount = computed(() => {
+        if (!allMatching.value) return selected.value.size
+
+        const matching = toValue(total) ?? toValue(items).length
+        return Math.max(matching - excluded.value.size, 0)
+    })
+
+    const hasSelection = computed(() => selectedCount.value > 0)
+
+    // The current filters, as the server will see them
+    const resolveQuery = (): Record<string, unknown> => {
+        if (query !== undefined) return toValue(query)
+
+        const params = new URLSearchParams(getCurrentUrl().search)
+        PAGINATION_PARAMS.forEach((param) => params.delete(param))
+        return resolveQuerySerializer('brackets').parse(params)
+    }
+
+    const payload = computed<BulkActionPayload>(() => {
+        return allMatching.value
+            ? { all: true, query: resolveQuery(), except: [...excluded.value] }
+            : { ids: [...selected.value] }
+    })
+
+    const submit = (url: string, submitOptions: BulkActionOptions = {}): void => {
+        const {
+            method = 'post',
+            data = {},
+            preserveScroll = true,
+            preserveState = true,
+            only,
+            clearOnSuccess = true,
+            onSuccess,
+            onFinish,
+        } = submitOptions
+
+        _isSubmitting.value = true
+
+        router.visit(url, {
+            method,
+            data: { ...data, ...payload.value } as VisitData,
+            preserveScroll,
+            preserveState,
+            only,
+            onSuccess: () => {
+                if (clearOnSuccess) clear()
+                onSuccess?.()
+            },
+            onFinish: () => {
+                _isSubmitting.value = false
+                onFinish?.()
+            },
+        })
+    }
+
+    if (resetOn !== undefined) {
+        watch(() => toValue(resetOn), clear, { deep: true })
+    }
+
+    return {
+        selectedIds: computed(() => selected.value),
+        excludedIds: computed(() => excluded.value),
+        selectedCount,
+        hasSelection,
+        isSelected,
+        toggle,
+        select,
+        deselect,
+        clear,
+        isPageSelected,
+        isPagePartiallySelected,
+        selectPage,
+        deselectPage,
+        togglePage,
+        isAllMatching: computed(() => allMatching.value),
+        selectAllMatching,
+        payload,
+        submit,
+        isSubmitting: computed(() => _isSubmitting.value),
+    }
+}
@@ -1,49 +1,71 @@
 import { computed, type MaybeRefOrGetter, toValue } from 'vue'
 import { router } from '@inertiajs/vue3'
 import { getCurrentUrl } from '../utils/ssr'
-import type { UseSortingReturn, UseSortingOptions, SortState } from '../types'
+import { nextSorts, parseSortParam, serializeSortParam } from '../utils/sort'
+import { rememberQuery } from '../utils/remember'
+import type { UseSortingReturn, UseSortingOptions, SortState, SortDirection } from '../types'
 
 /**
  * Manages sortable table columns with Inertia visits.
  * Clicking the same field toggles direction; clicking a new field sorts ascending.
  *
+ * With `multiple: true`, columns are kept in priority order and written to
+ * the URL as `sort=status,-created_at`. Pass `additive` (e.g. the click's
+ * `shiftKey`) to add a column instead of replacing the current sort.
+ *
  * @example
  * const { sortBy, isSortedBy, direction } = useSorting(() => props.sort, {
  *     only: ['users']
  * })
+ *
+ * // Multi-column:
+ * const { sortBy, sortIndex, directionOf } = useSorting(() => props.sort, { multiple: true })
+ * // <th @click="sortBy('status', $event.shiftKey)">
  */
 export function useSorting(
-    currentSort: MaybeRefOrGetter<SortState>,
+    currentSort: MaybeRefOrGetter<SortState | SortState[] | null>,
     options: UseSortingOptions = {},
 ): UseSortingReturn {
     const {
+        multiple = false,
         preserveScroll = true,
         replace = false,
         only = [],
+        remember,
     } = options
 
-    const field = computed(() => toValue(currentSort).field)
-    const direction = computed(() => toValue(currentSort).direction)
+    rememberQuery(remember)
 
-    const sortBy = (newField: string): void => {
-        const current = toValue(currentSort)
-        let newDirection: 'asc' | 'desc' = 'asc'
+    const sorts = computed<SortState[]>(() => {
+        const value = toValue(currentSort)
 
-        // Toggle direction if clicking the same field
-        if (current.field === newField) {
-            newDirection = current.direction === 'asc' ? 'desc' : 'asc'
+        if (Array.isArray(value)) return value
+
+        if (multiple) {
+            // Fall back to the URL so multi-column state round-trips
+            // even when the server only echoes a single sort.
+            const fromUrl = parseSortParam(getCurrentUrl().searchParams.get('sort'))
+            if (fromUrl.length > 0) return fromUrl
         }
 
-        const currentUrl = getCurrentUrl()
-        const params = new URLSearchParams(currentUrl.search)
+        return value?.field ? [value] : []
+    })
 
-        params.set('sort', newField)
-        params.set('direction', newDirection)
+    const field = computed(() => sorts.value[0]?.field ?? '')
+    const direction = computed<SortDirection>(() => sorts.value[0]?.direction ?? 'asc')
 
-        // Reset to page 1 when sort changes
+    const visit = (params: URLSearchParams): void => {
+        const currentUrl = getCurrentUrl()
+
+        // Reset to page 1 when sort changes; a cursor
+        // belongs to the old result set
         params.delete('page')
+        params.delete('cursor')
 
-        const url = `${currentUrl.pathname}?${params.toString()}`
+        const queryString = params.toString()
+        const url = queryString
+            ? `${currentUrl.pathname}?${queryString}`
+            : currentUrl.pathname
 
         router.visit(url, {
             preserveScroll,
@@ -52,8 +74,36 @@ export function useSorting(
         })
     }
 
+    const sortBy = (newField: string, additive = false): void => {
+        const next = nextSorts(sorts.value, newField, { multiple, additive })
+        const params = new URLSearchParams(getCurrentUrl().search)
+
+        if (multiple) {
+            if (next.length > 0) {
+                params.set('sort', serializeSortParam(next))
+            } else {
+                params.delete('sort')
+            }
+            params.delete('direction')
+        } else {
+            params.set('sort', next[0].field)
+            params.set('direction', next[0].direction)
+        }
+
+        visit(params)
+    }
+
     const isSortedBy = (checkField: string): boolean => {
-        return field.value === checkField
+        return sorts.value.some((sort) => sort.field === checkField)
+    }
+
+    const sortIndex = (checkField: string): number | null => {
+        const index = sorts.value.findIndex((sort) => sort.field === checkField)
+        return index === -1 ? null : index + 1
+    }
+
+    const directionOf = (checkField: string): SortDirection | null => {
+        return sorts.value.find((sort) => sort.field === checkField)?.direction ?? null
     }
 
     return {
@@ -61,5 +111,8 @@ export function useSorting(
         isSortedBy,
         direction,
         field,
+        sorts,
+        sortIndex,
+        directionOf,
     }
 }
@@ -0,0 +1,141 @@
+import { effectScope, shallowRef, watchEffect, type Directive, type DirectiveBinding, type EffectScope, type ShallowRef, type VNode } from 'vue'
+import { useAuth } from '../composables/useAuth'
+import type { CanDirectiveValue, UseAuthOptions } from '../types'
+
+interface CanState {
+    auth: ReturnType<typeof useAuth>
+    /** Holds the auth computeds and the watcher, stopped on unmount */
+    scope: EffectScope
+    binding: ShallowRef<DirectiveBinding<CanDirectiveValue>>
+    display: string
+    /** Whether the element would be disabled without the directive */
+    disabled: boolean
+    /** Whether the current `disabled` attribute was added by the directive */
+    ownsDisabled: boolean
+    ariaDisabled: string | null
+}
+
+const states = new WeakMap<HTMLElement, CanState>()
+
+const authOptions = (value: CanDirectiveValue): UseAuthOptions => {
+    return typeof value === 'object' && !Array.isArray(value) ? value.auth ?? {} : {}
+}
+
+// Inside the app's context, so `createAuth()` defaults reach hook-time calls
+const resolveAuth = (binding: DirectiveBinding<CanDirectiveValue>): ReturnType<typeof useAuth> => {
+    const app = binding.instance?.$.appContext.app
+    const create = (): ReturnType<typeof useAuth> => useAuth(authOptions(binding.value))
+    return app ? app.runWithContext(create) : create()
+}
+
+const isAllowed = (
+    auth: ReturnType<typeof useAuth>,
+    value: CanDirectiveValue,
+): boolean => {
+    const { ability, model, type } = typeof value === 'object' && !Array.isArray(value)
+        ? value
+        : { ability: value, model: undefined, type: undefined }
+
+    const abilities: string[] = Array.isArray(ability) ? ability : [ability]
+
+    return abilities.some((item) => (model === undefined ? auth.can(item) : auth.canOn(model, item, type)))
+}
+
+// The element's own disabled state, from a `disabled` binding when it has one
+const ownDisabled = (vnode: VNode, fallback: boolean): boolean => {
+    const props = vnode.props
+    if (!props || !('disabled' in props)) return fallback
+
+    return props.disabled !== false && props.disabled !== null && props.disabled !== undefined
+}
+
+const apply = (el: HTMLElement, state: CanState): void => {
+    const allowed = isAllowed(state.auth, state.binding.value.value)
+
+    if (!state.binding.value.modifiers.disable) {
+        el.style.display = allowed ? state.display : 'none'
+        return
+    }
+
+    // Only undo what the directive did — `disabled` set by the template stays
+    if (allowed) {
+        if (state.ownsDisabled) {
+            el.toggleAttribute('disabled', state.disabled)
+            state.ownsDisabled = false
+        }
+
+        if (state.ariaDisabled === null) {
+            el.removeAttribute('aria-disabled')
+        } else {
+            el.setAttribute('aria-disabled', state.ariaDisabled)
+        }
+        return
+    }
+
+    if (!el.hasAttribute('disabled')) {
+        el.setAttribute('disabled', '')
+        state.ownsDisabled = true
+    }
+    el.setAttribute('aria-disabled', 'true')
+}
+
+/**
+ * Hides an element unless the user has the ability — or, with `.disable`,
+ * disables it instead. Re-evaluates whenever auth data changes.
+ *
+ * Takes an ability, a list of abilities (any of them grants access), or
+ * `{ ability, model, type }` to check a specific model via `canOn()`.
+ * The object form also takes `auth` options for `useAuth()`, read when the
+ * element mounts; app-wide ones come from `createAuth()`.
+ *
+ * @example
+ * <Link v-can="'posts.create'" href="/posts/create">New post</Link>
+ * <button v-can.disable="{ ability: 'delete', model: post }">Delete</button>
+ */
+export const vCan: Directive<HTMLElement, CanDirectiveValue> = {
+    mounted(el, binding, vnode) {
+        // Hooks run outside the component's scope, so the computeds useAuth()
+        // creates would otherwise outlive the element
+        const scope = effectScope(true)
+
+        scope.run(() => {
+            const state: CanState = {
+                auth: resolveAuth(binding),
+                scope,
+                binding: shallowRef(binding),
+                display: el.style.display,
+                disabled: ownDisabled(vnode, el.hasAttribute('disabled')),
+                ownsDisabled: false,
+                ariaDisabled: el.getAttribute('aria-disabled'),
+            }
+
+            watchEffect(() => apply(el, state))
+
+            states.set(el, state)
+        })
+    },
+
+    updated(el, binding, vnode) {
+        const state = states.get(el)
+        if (!state) return
+
+        // The patch may have just changed `disabled`, so re-apply straight away
+        state.disabled = ownDisabled(vnode, state.disabled)
+        state.binding.value = binding
+        apply(el, state)
+    },
+
+    beforeUnmount(el) {
+        states.get(el)?.scope.stop()
+        states.delete(el)
+    },
+
+    // Render the element already hidden or disabled on the server
+    getSSRProps(binding) {
+        if (isAllowed(useAuth(authOptions(binding.value)), binding.value)) return {}
+
+        return binding.modifiers.disable
+            ? { disabled: true, 'aria-disabled': 'true' }
+            : { style: { display: 'none' } }
+    },
+}
@@ -3,8 +3,28 @@ export { useAuth } from './composables/useAuth'
 export { useFlash } from './composables/useFlash'
 export { usePagination } from './composables/usePagination'
 export { useFilters } from './composables/useFilters'
+export { useFilterPresets } from './composables/useFilterPresets'
 export { useSorting } from './composables/useSorting'
 export { useBreadcrumbs } from './composables/useBreadcrumbs'
+export { useRouteGuard } from './composables/useRouteGuard'
+export { useDataTable } from './composables/useDataTable'
+export { useSelection } from './composables/useSelection'
+
+// Components
+export { Can } from './components/Can'
+export { HasRole } from './components/HasRole'
+
+// Directives
+export { vCan } from './directives/can'
+
+// Stores
+export { createAuth } from './stores/auth'
+export { createFlash } from './stores/flash'
+export { definePolicies } from './stores/policies'
+export { createLocalPresetStorage, createHttpPresetStorage } from './stores/presets'
+
+// Utilities
+export { forgetQuery } from './utils/remember'
 
 // Types
 export type {
@@ -13,34 +33,104 @@ export type {
     SharedData,
     SharedDataOverrides,
     InferUser,
+    InferAbility,
+    InferRole,
 
     // Flash
     FlashType,
     FlashMessage,
     FlashMessagePayload,
     UseFlashReturn,
+    FlashStore,
+    FlashStoreOptions,
+    PendingFlashMessage,
 
     // Auth
     UseAuthOptions,
     UseAuthReturn,
+    AuthorizableModel,
+    ModelAbility,
+    Policy,
+    PolicyCheck,
+    PolicyRegistry,
+    CanDirectiveValue,
+
+    // Route guard
+    VisitMethod,
+    RouteGuardRule,
+    UseRouteGuardOptions,
+    UseRouteGuardReturn,
+
+    // Remember
+    RememberOptions,
 
     // Pagination
     InertiaPage,
+    SimplePage,
+    CursorPage,
+    Paginator,
+    PaginatorType,
+    ResourceLinks,
+    ResourcePage,
+    SimpleResourcePage,
+    CursorResourcePage,
+    AnyResourcePage,
     PaginationMeta,
+    SimplePaginationMeta,
+    CursorPaginationMeta,
     PaginationLink,
+    PaginationPageItem,
     UsePaginationOptions,
     UsePaginationReturn,
+    UseSimplePaginationReturn,
+    UseCursorPaginationReturn,
 
     // Filters
+    FilterValueType,
+    QueryFormat,
+    QuerySerializer,
     UseFiltersOptions,
+    FilterField,
+    FilterSchema,
+    InferFilterValues,
     UseFiltersReturn,
 
+    // Filter Presets
+    FilterPreset,
+    FilterPresetStorage,
+    FilterPresetState,
+    HttpPresetStorageOptions,
+    UseFilterPresetsOptions,
+    UseFilterPresetsReturn,
+
     // Sorting
+    SortDirection,
     SortState,
     UseSortingOptions,
     UseSortingReturn,
 
+    // Data table
+    DataTableColumn,
+    DataTableColumnState,
+    UseDataTableOptions,
+    UseDataTableReturn,
+    UseSimpleDataTableReturn,
+    UseCursorDataTableReturn,
+
+    // Selection
+    SelectionKey,
+    UseSelectionOptions,
+    UseSelectionReturn,
+    BulkActionOptions,
+    BulkActionPayload,
+
     // Breadcrumbs
     BreadcrumbItem,
+    BreadcrumbEllipsis,
+    CollapsedBreadcrumb,
+    UseBreadcrumbsOptions,
+    BreadcrumbTitleOptions,
+    BreadcrumbListItem,
+    BreadcrumbJsonLd,
     UseBreadcrumbsReturn,
 } from './types'
@@ -0,0 +1,32 @@
+import { hasInjectionContext, inject, type InjectionKey, type Plugin } from 'vue'
+import type { UseAuthOptions } from '../types'
+
+export const AUTH_OPTIONS_KEY: InjectionKey<UseAuthOptions> = Symbol('inertia-helpers:auth')
+
+/**
+ * App-wide defaults for `useAuth()` — and so for `<Can>`, `<HasRole>`,
+ * `v-can` and `useRouteGuard()`, which call it for you. Options passed
+ * to a single call still win.
+ *
+ * @example
+ * createApp({ render: () => h(App, props) })
+ *     .use(plugin)
+ *     .use(createAuth({ resolveRoles: (user) => user.roles.map((role) => role.name) }))
+ *     .mount(el)
+ */
+export function createAuth(options: UseAuthOptions): Plugin {
+    return {
+        install: (app) => {
+            app.provide(AUTH_OPTIONS_KEY, options)
+        },
+    }
+}
+
+/**
+ * The app's defaults from `createAuth()`, overridden by `options`.
+ */
+export function resolveAuthOptions<T>(options: UseAuthOptions<T>): UseAuthOptions<T> {
+    const defaults = hasInjectionContext() ? inject(AUTH_OPTIONS_KEY, null) : null
+
+    return { ...(defaults as UseAuthOptions<T> | null), ...options }
+}
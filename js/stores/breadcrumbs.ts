@@ -0,0 +1,58 @@
+import { getCurrentInstance, shallowRef, type App } from 'vue'
+import type { BreadcrumbItem } from '../types'
+
+type BreadcrumbOverride = (crumbs: BreadcrumbItem[]) => BreadcrumbItem[]
+
+export interface BreadcrumbStore {
+    /** Applies every override, oldest first, to the server's trail */
+    apply: (crumbs: BreadcrumbItem[]) => BreadcrumbItem[]
+    /** Adds an override; the returned function removes it again */
+    add: (override: BreadcrumbOverride) => () => void
+}
+
+function createBreadcrumbStore(): BreadcrumbStore {
+    // Replaced rather than mutated so the trail recomputes
+    const overrides = shallowRef<BreadcrumbOverride[]>([])
+
+    const add = (override: BreadcrumbOverride): (() => void) => {
+        overrides.value = [...overrides.value, override]
+
+        return () => {
+            overrides.value = overrides.value.filter((o) => o !== override)
+        }
+    }
+
+    const apply = (crumbs: BreadcrumbItem[]): BreadcrumbItem[] => {
+        return overrides.value.reduce((trail, override) => override(trail), crumbs)
+    }
+
+    return { apply, add }
+}
+
+const appStores = new WeakMap<App, BreadcrumbStore>()
+let clientStore: BreadcrumbStore | null = null
+
+/**
+ * Finds the breadcrumb overrides for the current caller's app, so a page
+ * and the layout rendering the trail see the same ones. Outside a
+ * component the browser shares a singleton, and the server gets a fresh
+ * store per call so overrides can't leak between requests.
+ */
+export function resolveBreadcrumbStore(): BreadcrumbStore {
+    const instance = getCurrentInstance()
+
+    if (!instance) {
+        if (typeof window === 'undefined') return createBreadcrumbStore()
+        return (clientStore ??= createBreadcrumbStore())
+    }
+
+    const app = instance.appContext.app
+    let store = appStores.get(app)
+
+    if (!store) {
+        store = createBreadcrumbStore()
+        appStores.set(app, store)
+    }
+
+    return store
+}
@@ -0,0 +1,420 @@
+import { computed, effectScope, getCurrentInstance, inject, ref, watch, type App, type InjectionKey } from 'vue'
+import { usePage } from '@inertiajs/vue3'
+import type {
+    FlashStore,
+    FlashStoreOptions,
+    FlashMessage,
+    FlashMessagePayload,
+    FlashType,
+    PendingFlashMessage,
+    SharedData,
+} from '../types'
+
+const generateId = (): string =>
+    `flash-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`
+
+const DEFAULT_PRIORITY: FlashType[] = ['error', 'warning', 'info', 'success']
+
+export const FLASH_STORE_KEY: InjectionKey<FlashStore> = Symbol('inertia-helpers:flash')
+
+/**
+ * Creates an app-level flash message store: one message list, one dedupe
+ * set and one set of timers, shared by every `useFlash()` caller.
+ *
+ * Install it as a plugin to configure it and to reach it from outside
+ * components; this is the only place options are set. Without the plugin,
+ * `useFlash()` creates one with the defaults lazily for each Vue app —
+ * which also keeps SSR requests isolated, since each request renders its
+ * own app.
+ *
+ * @example
+ * // app.ts
+ * createInertiaApp({
+ *     setup({ el, App, props, plugin }) {
+ *         createApp({ render: () => h(App, props) })
+ *             .use(plugin)
+ *             .use(createFlash({ maxVisible: 3, priority: true }))
+ *             .mount(el)
+ *     },
+ * })
+ */
+export function createFlash(options: FlashStoreOptions = {}): FlashStore {
+    const {
+        maxVisible = Infinity,
+        priority = false,
+        collapse = false,
+        pauseWhenHidden = false,
+        autoDismiss = 5000,
+    } = options
+
+    const activeMessages = ref<FlashMessage[]>([])
+    const timers = new Map<string, ReturnType<typeof setInterval>>()
+    const dismissTimers = new Map<string, ReturnType<typeof setTimeout>>()
+    const listeners = new Set<(message: FlashMessage) => void>()
+    const processedIds = new Set<string>()
+    const countdowns = new Map<string, { remaining: number; startedAt: number | null }>()
+    const pausedIds = new Set<string>()
+    let allPaused = false
+    let documentHidden = false
+
+    // The store outlives whichever component created it, so its computeds
+    // and watchers live in a detached scope that only dispose() stops.
+    const scope = effectScope(true)
+
+    const priorityOrder = Array.isArray(priority) ? priority : DEFAULT_PRIORITY
+
+    const rank = (message: FlashMessage): number => {
+        const index = priorityOrder.indexOf(message.type)
+        return index === -1 ? priorityOrder.length : index
+    }
+
+    // Messages in display order; anything past maxVisible is queued.
+    // Array.prototype.sort is stable, so equal types keep arrival order.
+    const ordered = scope.run(() => computed(() => {
+        if (!priority) return activeMessages.value
+        return [...activeMessages.value].sort((a, b) => rank(a) - rank(b))
+    }))!
+
+    const messages = scope.run(() => computed(() => ordered.value.slice(0, maxVisible)))!
+
+    const overflowCount = scope.run(() => computed(() => Math.max(0, ordered.value.length - maxVisible)))!
+
+    const clearTimers = (id: string): void => {
+        const progressTimer = timers.get(id)
+        if (progressTimer) {
+            clearInterval(progressTimer)
+            timers.delete(id)
+        }
+
+        const dismissTimer = dismissTimers.get(id)
+        if (dismissTimer) {
+            clearTimeout(dismissTimer)
+            dismissTimers.delete(id)
+        }
+    }
+
+    const startCountdown = (message: FlashMessage): void => {
+        if (!message.autoDismiss || typeof message.autoDismiss !== 'number') return
+
+        const duration = message.autoDismiss
+        const intervalMs = 50 // update progress every 50ms
+
+        let countdown = countdowns.get(message.id)
+        if (!countdown) {
+            countdown = { remaining: duration, startedAt: null }
+            countdowns.set(message.id, countdown)
+        }
+
+        const startTime = Date.now()
+        const startRemaining = countdown.remaining
+        countdown.startedAt = startTime
+
+        // Progress countdown
+        const progressTimer = setInterval(() => {
+            const elapsed = Date.now() - startTime
+            const remaining = Math.max(0, ((startRemaining - elapsed) / duration) * 100)
+
+            activeMessages.value = activeMessages.value.map((msg) =>
+                msg.id === message.id
+                    ? { ...msg, remainingPercent: remaining }
+                    : msg,
+            )
+        }, intervalMs)
+        timers.set(message.id, progressTimer)
+
+        // Dismiss once the remaining time runs out
+        const dismissTimer = setTimeout(() => {
+            dismiss(message.id)
+        }, startRemaining)
+        dismissTimers.set(message.id, dismissTimer)
+    }
+
+    // Stops a running countdown, keeping the time it has left
+    const stopCountdown = (id: string): void => {
+        clearTimers(id)
+
+        const countdown = countdowns.get(id)
+        if (!countdown || countdown.startedAt === null) return
+
+        countdown.remaining = Math.max(0, countdown.remaining - (Date.now() - countdown.startedAt))
+        countdown.startedAt = null
+
+        // Freeze the progress bar exactly where the countdown stopped
+        activeMessages.value = activeMessages.value.map((msg) =>
+            msg.id === id && typeof msg.autoDismiss === 'number'
+                ? { ...msg, remainingPercent: (countdown.remaining / msg.autoDismiss) * 100 }
+                : msg,
+        )
+    }
+
+    // Only visible, unpaused messages count down. Messages pushed back into
+    // the queue (e.g. by a higher-priority arrival) or paused stop where
+    // they are and carry on from there later.
+    const syncTimers = (): void => {
+        const visibleIds = new Set(messages.value.map((msg) => msg.id))
+        const halted = allPaused || documentHidden
+
+        activeMessages.value.forEach((msg) => {
+            const running = dismissTimers.has(msg.id)
+            const shouldRun = visibleIds.has(msg.id) && !halted && !pausedIds.has(msg.id)
+
+            if (shouldRun && !running) {
+                startCountdown(msg)
+            } else if (!shouldRun && running) {
+                stopCountdown(msg.id)
+            }
+        })
+    }
+
+    const pause = (id: string): void => {
+        pausedIds.add(id)
+        syncTimers()
+    }
+
+    const resume = (id: string): void => {
+        pausedIds.delete(id)
+        syncTimers()
+    }
+
+    const pauseAll = (): void => {
+        allPaused = true
+        syncTimers()
+    }
+
+    const resumeAll = (): void => {
+        allPaused = false
+        pausedIds.clear()
+        syncTimers()
+    }
+
+    const addMessage = (payload: FlashMessagePayload): void => {
+        const id = payload.id ?? generateId()
+
+        // Skip if we've already processed this message
+        if (processedIds.has(id)) return
+        processedIds.add(id)
+
+        if (collapse) {
+            const existing = activeMessages.value.find(
+                (msg) => msg.type === payload.type && msg.text === payload.text,
+            )
+
+            if (existing) {
+                const merged: FlashMessage = {
+                    ...existing,
+                    count: existing.count + 1,
+                    remainingPercent: 100,
+                }
+
+                activeMessages.value = activeMessages.value.map((msg) =>
+                    msg.id === existing.id ? merged : msg,
+                )
+
+                // Restart the countdown for the repeated message
+                clearTimers(existing.id)
+                countdowns.delete(existing.id)
+                syncTimers()
+
+                listeners.forEach((cb) => cb(merged))
+                return
+            }
+        }
+
+        const message: FlashMessage = {
+            ...payload,
+            id,
+            remainingPercent: 100,
+            createdAt: Date.now(),
+            count: 1,
+        }
+
+        activeMessages.value = [...activeMessages.value, message]
+
+        // Notify listeners
+        listeners.forEach((cb) => cb(message))
+
+        // Set up auto-dismiss if the message is visible
+        syncTimers()
+    }
+
+    const dismiss = (id: string): void => {
+        clearTimers(id)
+        countdowns.delete(id)
+        pausedIds.delete(id)
+
+        // Remove message
+        activeMessages.value = activeMessages.value.filter((msg) => msg.id !== id)
+
+        // Promote the next queued message, if any
+        syncTimers()
+    }
+
+    const dismissAll = (): void => {
+        // Clear all timers
+        timers.forEach((timer) => clearInterval(timer))
+        timers.clear()
+        dismissTimers.forEach((timer) => clearTimeout(timer))
+        dismissTimers.clear()
+        countdowns.clear()
+        pausedIds.clear()
+
+        activeMessages.value = []
+    }
+
+    // Client-side messages go through the same pipeline as server ones:
+    // dedupe, queueing, collapsing and onFlash listeners all apply.
+    const compose = (type: FlashType, text: string): PendingFlashMessage => {
+        const payload: FlashMessagePayload = {
+            id: generateId(),
+            type,
+            text,
+            detail: null,
+            action: null,
+            // Errors should persist by default
+            autoDismiss: type === 'error' ? false : autoDismiss,
+        }
+
+        let sent = false
+
+        const pending: PendingFlashMessage = {
+            detail: (detail) => {
+                payload.detail = detail
+                return pending
+            },
+            action: (label, url) => {
+                payload.action = { label, url }
+                return pending
+            },
+            autoDismiss: (milliseconds) => {
+                payload.autoDismiss = milliseconds
+                return pending
+            },
+            send: () => {
+                if (!sent) {
+                    sent = true
+                    addMessage({ ...payload })
+                }
+                return payload.id as string
+            },
+        }
+
+        // Send once the chain has finished, unless send() was called
+        Promise.resolve().then(pending.send)
+
+        return pending
+    }
+
+    const onFlash = (callback: (message: FlashMessage) => void): (() => void) => {
+        listeners.add(callback)
+        return () => listeners.delete(callback)
+    }
+
+    // Freeze every countdown while the tab is in the background
+    const onVisibilityChange = (): void => {
+        documentHidden = document.visibilityState === 'hidden'
+        syncTimers()
+    }
+
+    if (pauseWhenHidden && typeof document !== 'undefined') {
+        documentHidden = document.visibilityState === 'hidden'
+        document.addEventListener('visibilitychange', onVisibilityChange)
+    }
+
+    scope.run(() => {
+        const page = usePage<SharedData>()
+
+        // Watch for new flash messages from Inertia page props.
+        // Deduplicates by server-provided UUID — the same message
+        // won't be shown twice even if page props are re-delivered.
+        watch(
+            () => page.props?.flash?.messages,
+            (newMessages) => {
+                if (!newMessages || !Array.isArray(newMessages) || newMessages.length === 0) {
+                    return
+                }
+
+                newMessages.forEach((payload: FlashMessagePayload) => {
+                    if (payload.text) {
+                        addMessage(payload)
+                    }
+                })
+            },
+            { immediate: true, deep: true },
+        )
+    })
+
+    const dispose = (): void => {
+        scope.stop()
+
+        if (pauseWhenHidden && typeof document !== 'undefined') {
+            document.removeEventListener('visibilitychange', onVisibilityChange)
+        }
+
+        timers.forEach((timer) => clearInterval(timer))
+        timers.clear()
+        dismissTimers.forEach((timer) => clearTimeout(timer))
+        dismissTimers.clear()
+        listeners.clear()
+    }
+
+    const store: FlashStore = {
+        messages,
+        overflowCount,
+        addMessage,
+        dismiss,
+        dismissAll,
+        pause,
+        resume,
+        pauseAll,
+        resumeAll,
+        success: (text) => compose('success', text),
+        error: (text) => compose('error', text),
+        warning: (text) => compose('warning', text),
+        info: (text) => compose('info', text),
+        onFlash,
+        dispose,
+        install: (app: App) => {
+            app.provide(FLASH_STORE_KEY, store)
+        },
+    }
+
+    return store
+}
+
+const appStores = new WeakMap<App, FlashStore>()
+let clientStore: FlashStore | null = null
+
+const appStore = (app: App): FlashStore => {
+    const existing = appStores.get(app)
+    if (existing) return existing
+
+    const created = createFlash()
+    appStores.set(app, created)
+
+    // Vue 3.5+: stop the store's watcher and timers with the app
+    if (typeof app.onUnmount === 'function') {
+        app.onUnmount(() => {
+            created.dispose()
+            appStores.delete(app)
+        })
+    }
+
+    return created
+}
+
+/**
+ * Finds the flash store for the current caller: the installed plugin, else
+ * one created lazily for the current app. Outside a component there's no
+ * app to scope to, so the browser shares a singleton and the server (where
+ * a singleton would leak between requests) gets a fresh store.
+ */
+export function resolveFlashStore(): FlashStore {
+    const instance = getCurrentInstance()
+
+    if (!instance) {
+        if (typeof window === 'undefined') return createFlash()
+        return (clientStore ??= createFlash())
+    }
+
+    return inject(FLASH_STORE_KEY, null) ?? appStore(instance.appContext.app)
+}
@@ -0,0 +1,32 @@
+import type { Policy, PolicyRegistry } from '../types'
+
+const registry = new Map<string, Policy<never>>()
+
+/**
+ * Registers client-side policies, keyed by model type. `useAuth().canOn()`
+ * falls back to these when a model doesn't carry its own `can` map.
+ *
+ * Policies are plain code, so one registry is shared by every app. Call
+ * this once at boot; the returned function removes the policies again.
+ *
+ * @example
+ * definePolicies({
+ *     post: {
+ *         update: (user, post: Post) => user?.id === post.user_id,
+ *         delete: (user, post: Post) => user?.id === post.user_id && !post.published,
+ *     },
+ * })
+ */
+export function definePolicies(policies: PolicyRegistry): () => void {
+    Object.entries(policies).forEach(([type, policy]) => registry.set(type, policy))
+
+    return () => {
+        Object.entries(policies).forEach(([type, policy]) => {
+            if (registry.get(type) === policy) registry.delete(type)
+        })
+    }
+}
+
+export function resolvePolicy(type: string): Policy<never> | undefined {
+    return registry.get(type)
+}
@@ -0,0 +1,103 @@
+import type { FilterPreset, FilterPresetStorage, HttpPresetStorageOptions } from '../types'
+
+const STORAGE_PREFIX = 'filter-presets:'
+
+/**
+ * Keeps filter presets in Web Storage, one entry per scope. This is the
+ * default storage for `useFilterPresets`. During SSR, with no storage
+ * available, there are simply no presets.
+ *
+ * @example
+ * useFilterPresets(filters, { storage: createLocalPresetStorage(sessionStorage) })
+ */
+export function createLocalPresetStorage(storage?: Storage): FilterPresetStorage {
+    const resolveStorage = (): Storage | null => {
+        if (storage) return storage
+        return typeof window !== 'undefined' ? window.localStorage : null
+    }
+
+    const read = (scope: string): FilterPreset[] => {
+        try {
+            const parsed: unknown = JSON.parse(resolveStorage()?.getItem(STORAGE_PREFIX + scope) ?? '[]')
+            return Array.isArray(parsed) ? parsed : []
+        } catch {
+            return []
+        }
+    }
+
+    const write = (scope: string, presets: FilterPreset[]): void => {
+        resolveStorage()?.setItem(STORAGE_PREFIX + scope, JSON.stringify(presets))
+    }
+
+    return {
+        load: read,
+        save: (scope, preset) => {
+            write(scope, [...read(scope).filter((p) => p.name !== preset.name), preset])
+        },
+        delete: (scope, name) => {
+            write(scope, read(scope).filter((p) => p.name !== name))
+        },
+    }
+}
+
+// Laravel's CSRF cookie, sent back as a header like axios does
+const xsrfToken = (): string | null => {
+    if (typeof document === 'undefined') return null
+
+    const match = document.cookie.match(/(?:^|;\s*)XSRF-TOKEN=([^;]*)/)
+    return match ? decodeURIComponent(match[1]) : null
+}
+
+/**
+ * Keeps filter presets on the server, so they follow the user across
+ * devices. The endpoint receives:
+ *
+ * - `GET {url}?scope=…` → the scope's presets, as an array or `{ data: [...] }`
+ * - `POST {url}` with `{ scope, name, values }` → save (or replace) a preset
+ * - `DELETE {url}` with `{ scope, name }` → delete a preset
+ *
+ * @example
+ * useFilterPresets(filters, { storage: createHttpPresetStorage({ url: '/filter-presets' }) })
+ */
+export function createHttpPresetStorage(options: HttpPresetStorageOptions): FilterPresetStorage {
+    const { url, headers = {} } = options
+
+    const request = async (method: string, target: string, body?: unknown): Promise<unknown> => {
+        const token = xsrfToken()
+
+        const response = await fetch(target, {
+            method,
+            credentials: 'same-origin',
+            headers: {
+                'Accept': 'application/json',
+                'Content-Type': 'application/json',
+                'X-Requested-With': 'XMLHttpRequest',
+                ...(token ? { 'X-XSRF-TOKEN': token } : {}),
+                ...headers,
+            },
+            body: body === undefined ? undefined : JSON.stringify(body),
+        })
+
+        if (!response.ok) {
+            throw new Error(`Filter preset request failed with status ${response.status}`)
+        }
+
+        const text = await response.text()
+        return text ? JSON.parse(text) : null
+    }
+
+    return {
+        load: async (scope) => {
+            const separator = url.includes('?') ? '&' : '?'
+            const body = await request('GET', `${url}${separator}scope=${encodeURIComponent(scope)}`)
+            const presets = Array.isArray(body) ? body : (body as { data?: unknown } | null)?.data
+            return Array.isArray(presets) ? presets : []
+        },
+        save: async (scope, preset) => {
+            await request('POST', url, { scope, name: preset.name, values: preset.values })
+        },
+        delete: async (scope, name) => {
+            await request('DELETE', url, { scope, name })
+        },
+    }
+}
@@ -1,4 +1,4 @@
-import type { ComputedRef } from 'vue'
+import type { App, ComputedRef, MaybeRefOrGetter, Ref } from 'vue'
 
 // -------------------------------------------------------
 // Shared Data Types
@@ -8,6 +8,7 @@ export interface AuthUser {
     id: number
     name: string
     email: string
+    email_verified_at?: string | null
     [key: string]: unknown
 }
 
@@ -26,6 +27,14 @@ export interface SharedDataOverrides {}
 export interface DefaultSharedData {
     auth: {
         user: AuthUser | null
+        /** Ability → boolean map computed by the backend, e.g. from Gate checks */
+        can?: Record<string, boolean>
+        /** The original user while impersonating someone else */
+        impersonator?: AuthUser | null
+        /** Explicit impersonation flag, for backends that don't share the impersonator */
+        impersonating?: boolean
+        /** Whether the user still has to complete (or set up) two-factor authentication */
+        requiresTwoFactor?: boolean
     }
     flash: {
         messages: FlashMessagePayload[]
@@ -43,6 +52,20 @@ export type InferUser<S extends SharedData = SharedData> = NonNullable<
     S['auth']['user']
 >
 
+// Ability names from a typed `auth.can` map, or any string
+export type InferAbility<S extends SharedData = SharedData> = S['auth'] extends { can?: infer C }
+    ? unknown extends C
+        ? string
+        : string extends keyof NonNullable<C> ? string : keyof NonNullable<C> & string
+    : string
+
+// Role names from a typed `user.roles` array, or any string
+export type InferRole<S extends SharedData = SharedData> = InferUser<S> extends { roles?: infer R }
+    ? R extends readonly (infer N)[]
+        ? string extends N ? string : N & string
+        : string
+    : string
+
 // -------------------------------------------------------
 // Flash Messages
 // -------------------------------------------------------
@@ -62,29 +85,183 @@ export interface FlashMessage extends FlashMessagePayload {
     id: string
     remainingPercent: number
     createdAt: number
+    count: number
+}
+
+export interface FlashStoreOptions {
+    /**
+     * Maximum number of messages shown at once. Extra messages wait in a
+     * queue (and their auto-dismiss doesn't start) until a slot frees up.
+     */
+    maxVisible?: number
+    /**
+     * Order messages by type instead of arrival. `true` shows errors first,
+     * then warnings, info and success; pass an array for a custom order.
+     */
+    priority?: boolean | FlashType[]
+    /**
+     * Merge messages with the same type and text into one, counting repeats.
+     */
+    collapse?: boolean
+    /**
+     * Pause every countdown while the page is hidden (Page Visibility API).
+     */
+    pauseWhenHidden?: boolean
+    /**
+     * Auto-dismiss for messages created on the client. Errors always
+     * persist unless told otherwise, matching Flash.php. Defaults to 5000.
+     */
+    autoDismiss?: number | false
+}
+
+/**
+ * Fluent builder mirroring Flash.php. The message is sent at the end of the
+ * current tick, or straight away with `send()`.
+ */
+export interface PendingFlashMessage {
+    detail: (detail: string) => PendingFlashMessage
+    action: (label: string, url: string) => PendingFlashMessage
+    autoDismiss: (milliseconds: number | false) => PendingFlashMessage
+    send: () => string
 }
 
 export interface UseFlashReturn {
     messages: ComputedRef<FlashMessage[]>
+    overflowCount: ComputedRef<number>
     dismiss: (id: string) => void
     dismissAll: () => void
+    pause: (id: string) => void
+    resume: (id: string) => void
+    pauseAll: () => void
+    resumeAll: () => void
+    success: (text: string) => PendingFlashMessage
+    error: (text: string) => PendingFlashMessage
+    warning: (text: string) => PendingFlashMessage
+    info: (text: string) => PendingFlashMessage
     onFlash: (callback: (message: FlashMessage) => void) => () => void
 }
 
+export interface FlashStore extends UseFlashReturn {
+    addMessage: (payload: FlashMessagePayload) => void
+    dispose: () => void
+    install: (app: App) => void
+}
+
 // -------------------------------------------------------
 // Auth
 // -------------------------------------------------------
 
 export interface UseAuthOptions<T = InferUser> {
     resolveRoles?: (user: T) => string[]
+    resolvePermissions?: (user: T) => string[]
+    /** Maps a model to its policy key, for models without a `can` map */
+    resolveModelType?: (model: object) => string | null | undefined
+    /** Where `stopImpersonating()` sends the user. Defaults to '/impersonate/leave' */
+    stopImpersonatingUrl?: string
+    stopImpersonatingMethod?: 'get' | 'post' | 'put' | 'patch' | 'delete'
+}
+
+/**
+ * A model carrying its own ability map, e.g. from an API Resource:
+ * `'can' => ['update' => $request->user()->can('update', $this->resource)]`
+ */
+export interface AuthorizableModel<A extends string = string> {
+    can?: Partial<Record<A, boolean>>
+    [key: string]: unknown
 }
 
+/**
+ * Abilities accepted by `canOn()` for a model. When the model's `can` map
+ * is typed with specific keys, only those keys are accepted.
+ */
+export type ModelAbility<M> = M extends { can?: infer C }
+    ? unknown extends C
+        ? string
+        : NonNullable<C> extends Partial<Record<infer K, boolean>>
+            ? string extends K ? string : K & string
+            : string
+    : string
+
+export type PolicyCheck<M, U = InferUser> = (user: U | null, model: M) => boolean
+
+export type Policy<M, U = InferUser> = Record<string, PolicyCheck<M, U>>
+
+export type PolicyRegistry = Record<string, Policy<never>>
+
+export type CanDirectiveValue =
+    | InferAbility
+    | InferAbility[]
+    | { ability: InferAbility | InferAbility[]; model?: object | null; type?: string; auth?: UseAuthOptions }
+
 export interface UseAuthReturn<T = InferUser> {
     user: ComputedRef<T | null>
     isAuthenticated: ComputedRef<boolean>
     isGuest: ComputedRef<boolean>
+    impersonator: ComputedRef<T | null>
+    isImpersonating: ComputedRef<boolean>
+    stopImpersonating: () => void
+    isVerified: ComputedRef<boolean>
+    requiresTwoFactor: ComputedRef<boolean>
     hasRole: (role: string) => boolean
     hasAnyRole: (...roles: string[]) => boolean
+    hasAllRoles: (...roles: string[]) => boolean
+    can: (ability: string) => boolean
+    canAny: (...abilities: string[]) => boolean
+    canAll: (...abilities: string[]) => boolean
+    canOn: <M extends object>(model: M | null | undefined, ability: ModelAbility<M>, type?: string) => boolean
+}
+
+// -------------------------------------------------------
+// Route Guard
+// -------------------------------------------------------
+
+export type VisitMethod = 'get' | 'post' | 'put' | 'patch' | 'delete'
+
+export interface RouteGuardRule {
+    /** Path pattern where `*` matches anything (e.g. '/admin/*'), or a RegExp tested against the path */
+    pattern: string | RegExp
+    /** Only guard these methods. Defaults to every method. */
+    methods?: VisitMethod[]
+    /** The user needs one of these roles (all of them with `all`) */
+    roles?: InferRole[]
+    /** The user needs one of these abilities (all of them with `all`) */
+    abilities?: InferAbility[]
+    all?: boolean
+    /** Send the user here instead of cancelling the visit */
+    redirect?: string
+    /** Flash shown when the visit is blocked; `false` for none */
+    message?: string | false
+}
+
+export interface UseRouteGuardOptions {
+    /** Default redirect for rules without one. Visits are cancelled otherwise. */
+    redirect?: string
+    /** Default flash for rules without one */
+    message?: string | false
+    /** Passed to `useAuth()`, e.g. to customise role resolution */
+    auth?: UseAuthOptions
+}
+
+export interface UseRouteGuardReturn {
+    /** Whether the rules allow a visit to the URL */
+    isAllowed: (url: string | URL, method?: VisitMethod) => boolean
+    /** Stop guarding visits */
+    stop: () => void
+}
+
+// -------------------------------------------------------
+// Remember
+// -------------------------------------------------------
+
+export interface RememberOptions {
+    /** Storage entry to use. Defaults to the current path. */
+    key?: string
+    /** Defaults to 'session' */
+    storage?: 'session' | 'local' | Storage
+    /** How long a remembered query lasts, in ms. Defaults to one day; `null` never expires. */
+    ttl?: number | null
+    /** Params left out of the remembered query. Defaults to `page` and `cursor`. */
+    except?: string[]
 }
 
 // -------------------------------------------------------
@@ -98,6 +275,8 @@ export interface PaginationLink {
     url: string | null
 }
 
+export type PaginationPageItem = number | '…'
+
 export interface PaginationMeta {
     currentPage: number
     lastPage: number
@@ -108,6 +287,22 @@ export interface PaginationMeta {
     links: PaginationLink[]
 }
 
+export interface SimplePaginationMeta {
+    currentPage: number
+    perPage: number
+    from: number | null
+    to: number | null
+}
+
+export interface CursorPaginationMeta {
+    perPage: number
+    nextCursor: string | null
+    prevCursor: string | null
+}
+
+/**
+ * Laravel's LengthAwarePaginator, from `->paginate()`.
+ */
 export interface InertiaPage<T> {
     data: T[]
     current_page: number
@@ -121,36 +316,236 @@ export interface InertiaPage<T> {
         label: string
         active: boolean
     }>
+    path?: string
+    first_page_url?: string
+    last_page_url?: string
+    next_page_url?: string | null
+    prev_page_url?: string | null
 }
 
-export interface UsePaginationOptions {
+/**
+ * Laravel's Paginator, from `->simplePaginate()`. Has no totals.
+ */
+export interface SimplePage<T> {
+    data: T[]
+    path: string
+    current_page: number
+    per_page: number
+    from: number | null
+    to: number | null
+    first_page_url: string
+    next_page_url: string | null
+    prev_page_url: string | null
+}
+
+/**
+ * Laravel's CursorPaginator, from `->cursorPaginate()`. Has no page numbers or totals.
+ */
+export interface CursorPage<T> {
+    data: T[]
+    path: string
+    per_page: number
+    next_cursor: string | null
+    prev_cursor: string | null
+    next_page_url: string | null
+    prev_page_url: string | null
+}
+
+export type Paginator<T> = InertiaPage<T> | SimplePage<T> | CursorPage<T>
+
+export interface ResourceLinks {
+    first: string | null
+    last: string | null
+    prev: string | null
+    next: string | null
+}
+
+/**
+ * A paginator wrapped in an API Resource collection, e.g.
+ * `UserResource::collection($users->paginate())`.
+ */
+export interface ResourcePage<T> {
+    data: T[]
+    links: ResourceLinks
+    meta: Pick<InertiaPage<T>, 'current_page' | 'last_page' | 'per_page' | 'total' | 'from' | 'to' | 'links' | 'path'>
+}
+
+export interface SimpleResourcePage<T> {
+    data: T[]
+    links: ResourceLinks
+    meta: Pick<SimplePage<T>, 'current_page' | 'per_page' | 'from' | 'to' | 'path'>
+}
+
+export interface CursorResourcePage<T> {
+    data: T[]
+    links: ResourceLinks
+    meta: Pick<CursorPage<T>, 'per_page' | 'next_cursor' | 'prev_cursor' | 'path'>
+}
+
+export type AnyResourcePage<T> = ResourcePage<T> | SimpleResourcePage<T> | CursorResourcePage<T>
+
+export type PaginatorType = 'length-aware' | 'simple' | 'cursor'
+
+export interface UsePaginationOptions<T = unknown> {
     preserveQuery?: string[]
     preserveScroll?: boolean
     replace?: boolean
     only?: string[]
+    /**
+     * Accumulate items across pages instead of replacing them,
+     * for "load more" buttons and infinite scroll.
+     */
+    infinite?: boolean
+    /**
+     * Key used to drop duplicate rows when appending pages. Defaults to `id`.
+     */
+    itemKey?: keyof T | ((item: T) => unknown)
+    /**
+     * Margin around the sentinel element before it counts as visible.
+     */
+    rootMargin?: string
+    /**
+     * Converts a custom payload into one of Laravel's paginator shapes.
+     * Not needed for plain paginators or API Resource collections,
+     * which are detected automatically.
+     */
+    adapter?: (value: unknown) => Paginator<T>
+    /**
+     * Pages shown either side of the current page in `pages`. Defaults to 3.
+     */
+    onEachSide?: number
+    /**
+     * Pages always shown at the start and end of `pages`. Defaults to 2.
+     */
+    onEnds?: number
+    /** Restore the last page size (and other query params) when revisiting the page bare */
+    remember?: boolean | RememberOptions
 }
 
-export interface UsePaginationReturn<T> {
+interface UsePaginationBase<T> {
     items: ComputedRef<T[]>
-    meta: ComputedRef<PaginationMeta>
-    goToPage: (page: number) => void
     nextPage: () => void
     prevPage: () => void
     updatePerPage: (perPage: number) => void
+    hasNext: ComputedRef<boolean>
+    hasPrev: ComputedRef<boolean>
+    isLoading: ComputedRef<boolean>
+    loadMore: () => void
+    hasMore: ComputedRef<boolean>
+    sentinel: Ref<HTMLElement | null>
+}
+
+export interface UsePaginationReturn<T> extends UsePaginationBase<T> {
+    meta: ComputedRef<PaginationMeta>
+    goToPage: (page: number) => void
     isFirstPage: ComputedRef<boolean>
     isLastPage: ComputedRef<boolean>
-    isLoading: ComputedRef<boolean>
+    pages: ComputedRef<PaginationPageItem[]>
+}
+
+export interface UseSimplePaginationReturn<T> extends UsePaginationBase<T> {
+    meta: ComputedRef<SimplePaginationMeta>
+    goToPage: (page: number) => void
+    isFirstPage: ComputedRef<boolean>
+    isLastPage: ComputedRef<boolean>
+    pages: ComputedRef<PaginationPageItem[]>
+}
+
+export interface UseCursorPaginationReturn<T> extends UsePaginationBase<T> {
+    meta: ComputedRef<CursorPaginationMeta>
 }
 
 // -------------------------------------------------------
 // Filters
 // -------------------------------------------------------
 
+export type FilterValueType = 'string' | 'number' | 'boolean' | 'date' | 'array' | 'object'
+
+export interface FilterField {
+    type: FilterValueType
+    /** Allowed values. For arrays, every item must be one of them. */
+    enum?: readonly (string | number)[]
+    /**
+     * Lower bound: the smallest number, earliest date, shortest string
+     * or fewest array items.
+     */
+    min?: number | string | Date
+    /** Upper bound, measured the same way as `min` */
+    max?: number | string | Date
+    /** Used when the incoming value is missing or invalid */
+    default?: unknown
+    /** Replaces the built-in error messages for this field */
+    message?: string
+}
+
+export type FilterSchema = Record<string, FilterField>
+
+type FilterFieldValue<F extends FilterField> =
+    F extends { type: 'number' } ? number | null
+        : F extends { type: 'boolean' } ? boolean
+            : F extends { type: 'date' } ? Date | null
+                : F extends { type: 'array'; enum: readonly (infer E)[] } ? E[]
+                    : F extends { type: 'array' } ? string[]
+                        : F extends { type: 'object' } ? Record<string, unknown>
+                            : F extends { enum: readonly (infer E)[] } ? E | ''
+                                : string
+
+/**
+ * The filter values described by a schema, e.g. `{ type: 'number' }`
+ * becomes `number | null` and `{ type: 'string', enum: ['a', 'b'] }`
+ * becomes `'a' | 'b' | ''`.
+ */
+export type InferFilterValues<S extends FilterSchema> = {
+    -readonly [K in keyof S]: FilterFieldValue<S[K]>
+}
+
+export type QueryFormat = 'brackets' | 'comma' | 'json'
+
+export interface QuerySerializer {
+    serialize: (values: Record<string, unknown>) => URLSearchParams
+    /**
+     * Reads values back from a query string — the reverse of `serialize`.
+     * `types` are keyed by param name, for formats that need them to tell
+     * a list from a single value.
+     */
+    parse: (params: URLSearchParams, types?: Partial<Record<string, FilterValueType>>) => Record<string, unknown>
+}
+
 export interface UseFiltersOptions<T> {
     debounce?: Partial<Record<keyof T, number>>
+    /**
+     * How filter values are written to the query string. Defaults to
+     * Laravel-style bracket notation (`status[]=a&status[]=b`).
+     */
+    serializer?: QueryFormat | QuerySerializer
+    /**
+     * Declared value types, used to coerce values coming back from the
+     * server (which arrive as strings) so `values` keeps its types.
+     */
+    types?: Partial<Record<keyof T, FilterValueType>>
+    /**
+     * Field definitions with a type, allowed values, bounds and a default.
+     * Incoming values are coerced and sanitized, and local changes are
+     * validated — a visit is held back while any field has an error.
+     */
+    schema?: Partial<Record<keyof T, FilterField>>
+    /**
+     * Query params to keep from the current URL: `true` (default) keeps
+     * every non-filter param, `false` none, or list the ones to keep.
+     */
+    preserveQuery?: boolean | string[]
+    /** Query params to drop even when `preserveQuery` would keep them */
+    exceptQuery?: string[]
+    /** Nest filters under one key, e.g. 'filter' for `filter[search]=…` */
+    namespace?: string
     preserveScroll?: boolean
     replace?: boolean
     only?: string[]
+    /**
+     * Remember the page's query (filters, sort, per page) and restore it
+     * with a replace visit when the page is opened again without one.
+     */
+    remember?: boolean | RememberOptions
 }
 
 export interface UseFiltersReturn<T extends Record<string, any>> {
@@ -162,28 +557,266 @@ export interface UseFiltersReturn<T extends Record<string, any>> {
     isDirty: ComputedRef<boolean>
     activeCount: ComputedRef<number>
     isLoading: ComputedRef<boolean>
+    /** Validation errors for schema fields, keyed by field */
+    errors: ComputedRef<Partial<Record<keyof T, string>>>
+    isValid: ComputedRef<boolean>
+    /** Send a pending debounced visit now */
+    flush: () => void
+    /** Drop a pending visit and cancel the one in flight */
+    cancel: () => void
+}
+
+// -------------------------------------------------------
+// Filter Presets
+// -------------------------------------------------------
+
+export interface FilterPreset<T = Record<string, unknown>> {
+    name: string
+    values: Partial<T>
+}
+
+/**
+ * Where presets are kept. `scope` identifies the page they belong to.
+ */
+export interface FilterPresetStorage {
+    load: (scope: string) => FilterPreset[] | Promise<FilterPreset[]>
+    save: (scope: string, preset: FilterPreset) => void | Promise<void>
+    delete: (scope: string, name: string) => void | Promise<void>
+}
+
+export interface HttpPresetStorageOptions {
+    /** Endpoint for the presets, e.g. '/filter-presets' */
+    url: string
+    headers?: Record<string, string>
+}
+
+export interface UseFilterPresetsOptions {
+    /** Defaults to presets in localStorage */
+    storage?: FilterPresetStorage
+    /** Which page the presets belong to. Defaults to the current path. */
+    scope?: string
+}
+
+export interface FilterPresetState<T> extends FilterPreset<T> {
+    /** Whether the preset matches the current filter values */
+    active: boolean
+}
+
+export interface UseFilterPresetsReturn<T> {
+    presets: ComputedRef<FilterPresetState<T>[]>
+    /** The preset matching the current filter values, if any */
+    activePreset: ComputedRef<FilterPreset<T> | null>
+    /** Save the current values under `name`, replacing a preset with the same name */
+    savePreset: (name: string) => Promise<void>
+    applyPreset: (name: string) => void
+    deletePreset: (name: string) => Promise<void>
+    /** Whether presets are being loaded or saved */
+    isLoading: ComputedRef<boolean>
 }
 
 // -------------------------------------------------------
 // Sorting
 // -------------------------------------------------------
 
+export type SortDirection = 'asc' | 'desc'
+
 export interface SortState {
     field: string
-    direction: 'asc' | 'desc'
+    direction: SortDirection
 }
 
 export interface UseSortingOptions {
+    /**
+     * Enable multi-column sorting. The URL stores every column in priority
+     * order as a single param (`sort=status,-created_at`) and each column
+     * cycles asc → desc → none.
+     */
+    multiple?: boolean
     preserveScroll?: boolean
     replace?: boolean
     only?: string[]
+    /** Restore the last sort when the page is opened again without a query */
+    remember?: boolean | RememberOptions
 }
 
 export interface UseSortingReturn {
-    sortBy: (field: string) => void
+    sortBy: (field: string, additive?: boolean) => void
     isSortedBy: (field: string) => boolean
-    direction: ComputedRef<'asc' | 'desc'>
+    direction: ComputedRef<SortDirection>
     field: ComputedRef<string>
+    sorts: ComputedRef<SortState[]>
+    sortIndex: (field: string) => number | null
+    directionOf: (field: string) => SortDirection | null
+}
+
+// -------------------------------------------------------
+// Data Table
+// -------------------------------------------------------
+
+export interface DataTableColumn {
+    key: string
+    /** Defaults to the key in sentence case: `created_at` → 'Created at' */
+    label?: string
+    /** `true` to sort by the column key, or the sort field to use */
+    sortable?: boolean | string
+    /** `true` to filter by the column key, or the filter key to use */
+    filterable?: boolean | string
+}
+
+export interface DataTableColumnState {
+    key: string
+    label: string
+    sortable: boolean
+    sortField: string | null
+    filterable: boolean
+    filterKey: string | null
+    /** Current sort direction, or null when the column isn't sorted */
+    direction: SortDirection | null
+    /** 1-based position among the active sorts, or null */
+    sortIndex: number | null
+}
+
+export interface UseDataTableOptions<T, F> {
+    /** The current filters, usually echoed back by the server */
+    filters?: MaybeRefOrGetter<F>
+    /** The current sort, usually echoed back by the server. Read from the URL when omitted. */
+    sort?: MaybeRefOrGetter<SortState | SortState[] | null>
+    columns?: DataTableColumn[]
+    /** Multi-column sorting, written as `sort=status,-created_at` */
+    multiple?: boolean
+    debounce?: Partial<Record<keyof F, number>>
+    serializer?: QueryFormat | QuerySerializer
+    types?: Partial<Record<keyof F, FilterValueType>>
+    /** Filter field definitions, as for `useFilters` — a visit is held back while any is invalid */
+    schema?: Partial<Record<keyof F, FilterField>>
+    namespace?: string
+    /** Query params not owned by the table to keep. Defaults to all of them. */
+    preserveQuery?: boolean | string[]
+    exceptQuery?: string[]
+    preserveScroll?: boolean
+    /**
+     * Replace the history entry instead of pushing one. By default filter
+     * changes replace it and sort and page changes push a new one.
+     */
+    replace?: boolean
+    only?: string[]
+    adapter?: (value: unknown) => Paginator<T>
+    onEachSide?: number
+    onEnds?: number
+    /** Restore the table's last query when the page is opened again without one */
+    remember?: boolean | RememberOptions
+}
+
+interface UseDataTableBase<T, F> {
+    items: ComputedRef<T[]>
+    nextPage: () => void
+    prevPage: () => void
+    updatePerPage: (perPage: number) => void
+    hasNext: ComputedRef<boolean>
+    hasPrev: ComputedRef<boolean>
+
+    values: F
+    update: <K extends keyof F>(key: K, value: F[K]) => void
+    updateMany: (updates: Partial<F>) => void
+    reset: () => void
+    resetField: <K extends keyof F>(key: K) => void
+    isDirty: ComputedRef<boolean>
+    activeCount: ComputedRef<number>
+    /** Validation errors for schema fields, keyed by field */
+    errors: ComputedRef<Partial<Record<keyof F, string>>>
+    isValid: ComputedRef<boolean>
+
+    sortBy: (field: string, additive?: boolean) => void
+    isSortedBy: (field: string) => boolean
+    sorts: ComputedRef<SortState[]>
+    sortIndex: (field: string) => number | null
+    directionOf: (field: string) => SortDirection | null
+
+    columns: ComputedRef<DataTableColumnState[]>
+    isLoading: ComputedRef<boolean>
+    flush: () => void
+    cancel: () => void
+}
+
+export interface UseDataTableReturn<T, F> extends UseDataTableBase<T, F> {
+    meta: ComputedRef<PaginationMeta>
+    goToPage: (page: number) => void
+    isFirstPage: ComputedRef<boolean>
+    isLastPage: ComputedRef<boolean>
+    pages: ComputedRef<PaginationPageItem[]>
+}
+
+export interface UseSimpleDataTableReturn<T, F> extends UseDataTableBase<T, F> {
+    meta: ComputedRef<SimplePaginationMeta>
+    goToPage: (page: number) => void
+    isFirstPage: ComputedRef<boolean>
+    isLastPage: ComputedRef<boolean>
+    pages: ComputedRef<PaginationPageItem[]>
+}
+
+export interface UseCursorDataTableReturn<T, F> extends UseDataTableBase<T, F> {
+    meta: ComputedRef<CursorPaginationMeta>
+}
+
+// -------------------------------------------------------
+// Selection
+// -------------------------------------------------------
+
+export type SelectionKey = string | number
+
+export interface UseSelectionOptions<T> {
+    /** Row key: a property name or a function. Defaults to 'id'. */
+    key?: keyof T | ((item: T) => SelectionKey)
+    /** Total rows matching the current filters, e.g. `meta.total` */
+    total?: MaybeRefOrGetter<number | null | undefined>
+    /**
+     * The filter query sent with "all matching" bulk actions. Defaults to
+     * the current URL's query, without pagination params.
+     */
+    query?: MaybeRefOrGetter<Record<string, unknown>>
+    /** Clear the selection whenever this changes, e.g. `() => props.filters` */
+    resetOn?: MaybeRefOrGetter<unknown>
+}
+
+export interface BulkActionOptions {
+    method?: Exclude<VisitMethod, 'get'>
+    /** Extra fields sent alongside the selection */
+    data?: Record<string, unknown>
+    preserveScroll?: boolean
+    preserveState?: boolean
+    only?: string[]
+    /** Clear the selection once the action succeeds. Defaults to true. */
+    clearOnSuccess?: boolean
+    onSuccess?: () => void
+    onFinish?: () => void
+}
+
+export type BulkActionPayload =
+    | { ids: SelectionKey[] }
+    | { all: true; query: Record<string, unknown>; except: SelectionKey[] }
+
+export interface UseSelectionReturn<T> {
+    /** Selected row keys across pages. Empty in "all matching" mode — see `excludedIds`. */
+    selectedIds: ComputedRef<ReadonlySet<SelectionKey>>
+    /** Rows deselected while in "all matching" mode */
+    excludedIds: ComputedRef<ReadonlySet<SelectionKey>>
+    selectedCount: ComputedRef<number>
+    hasSelection: ComputedRef<boolean>
+    isSelected: (item: T) => boolean
+    toggle: (item: T) => void
+    select: (...items: T[]) => void
+    deselect: (...items: T[]) => void
+    clear: () => void
+    isPageSelected: ComputedRef<boolean>
+    isPagePartiallySelected: ComputedRef<boolean>
+    selectPage: () => void
+    deselectPage: () => void
+    togglePage: () => void
+    isAllMatching: ComputedRef<boolean>
+    selectAllMatching: () => void
+    payload: ComputedRef<BulkActionPayload>
+    submit: (url: string, options?: BulkActionOptions) => void
+    isSubmitting: ComputedRef<boolean>
 }
 
 // -------------------------------------------------------
@@ -193,9 +826,79 @@ export interface UseSortingReturn {
 export interface BreadcrumbItem {
     label: string
     url: string | null
+    /** An icon name for the frontend to render */
+    icon?: string
+    meta?: Record<string, unknown>
+    /** Marks the current page. Without one, the last crumb is current. */
+    current?: boolean
+}
+
+/** Crumbs hidden in the middle of a collapsed trail */
+export interface BreadcrumbEllipsis {
+    type: 'ellipsis'
+    items: BreadcrumbItem[]
+}
+
+export type CollapsedBreadcrumb = (BreadcrumbItem & { type: 'crumb' }) | BreadcrumbEllipsis
+
+export interface UseBreadcrumbsOptions {
+    /**
+     * Longest trail shown in full by `collapsed`; longer ones hide their
+     * middle crumbs behind an ellipsis. Defaults to no limit.
+     */
+    maxVisible?: MaybeRefOrGetter<number>
+    /** Crumbs kept before the ellipsis. Defaults to 1. */
+    keepFirst?: number
+    /**
+     * Origin relative URLs in `jsonLd` are resolved against, usually your
+     * app URL. Without one they're left relative.
+     */
+    origin?: string
+}
+
+export interface BreadcrumbTitleOptions {
+    /** Defaults to ' | ' */
+    separator?: string
+    /** 'reverse' (default) puts the current page first */
+    order?: 'reverse' | 'natural'
+    /** How many crumbs to use, counting from the current page */
+    depth?: number
+}
+
+export interface BreadcrumbListItem {
+    '@type': 'ListItem'
+    position: number
+    name: string
+    item?: string
+}
+
+/** A schema.org BreadcrumbList */
+export interface BreadcrumbJsonLd {
+    '@context': 'https://schema.org'
+    '@type': 'BreadcrumbList'
+    itemListElement: BreadcrumbListItem[]
 }
 
 export interface UseBreadcrumbsReturn {
+    /** The server's trail with client-side changes applied */
     crumbs: ComputedRef<BreadcrumbItem[]>
     hasCrumbs: ComputedRef<boolean>
+    /** The crumb flagged `current`, else the last one */
+    current: ComputedRef<BreadcrumbItem | null>
+    /** The trail cut down to `maxVisible` crumbs around an ellipsis */
+    collapsed: ComputedRef<CollapsedBreadcrumb[]>
+    /** The trail as schema.org structured data */
+    jsonLd: ComputedRef<BreadcrumbJsonLd>
+    /** `jsonLd` serialized for a `<script type="application/ld+json">` tag */
+    jsonLdScript: ComputedRef<string>
+    /** A document title built from the trail, e.g. 'Invoice #1042 | Invoices' */
+    title: (options?: BreadcrumbTitleOptions) => ComputedRef<string>
+    /** Append crumbs to the trail */
+    push: (...items: MaybeRefOrGetter<BreadcrumbItem>[]) => () => void
+    /** Replace the last crumb, or add one to an empty trail */
+    replaceLast: (item: MaybeRefOrGetter<BreadcrumbItem>) => () => void
+    /** Replace the whole trail */
+    setTrail: (items: MaybeRefOrGetter<BreadcrumbItem[]>) => () => void
+    /** Undo every change made through this call */
+    reset: () => void
 }
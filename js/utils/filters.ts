@@ -0,0 +1,259 @@
+import { computed, reactive, watch, toValue, type ComputedRef, type MaybeRefOrGetter } from 'vue'
+import { getCurrentUrl } from './ssr'
+import { isEmptyValue, isEqual, isPlainObject, resolveQuerySerializer } from './query'
+import { fieldEquals, sanitizeField, validateField } from './schema'
+import type { FilterField, FilterSchema, FilterValueType, UseFiltersOptions } from '../types'
+
+type FilterStateOptions<T> = Pick<
+    UseFiltersOptions<T>,
+    'serializer' | 'types' | 'schema' | 'preserveQuery' | 'exceptQuery' | 'namespace'
+> & {
+    /** A single field changed, e.g. through v-model */
+    onChange: (key: string) => void
+    /** Several fields changed at once (bulk updates and resets) */
+    onCommit: () => void
+}
+
+export interface FilterState<T> {
+    /** Writable proxy — setting a field calls `onChange` */
+    values: T
+    update: <K extends keyof T>(key: K, value: T[K]) => void
+    updateMany: (updates: Partial<T>) => void
+    reset: () => void
+    resetField: <K extends keyof T>(key: K) => void
+    isDirty: ComputedRef<boolean>
+    activeCount: ComputedRef<number>
+    errors: ComputedRef<Partial<Record<keyof T, string>>>
+    isValid: ComputedRef<boolean>
+    /** Whether a query param holds one of the filters */
+    isFilterParam: (key: string) => boolean
+    /** Whether a param that isn't a filter should be kept in the URL */
+    isPreserved: (key: string) => boolean
+    /** Writes the filters to the query */
+    appendTo: (params: URLSearchParams) => void
+    /** Forgets local changes once they've been sent (or dropped) */
+    clearUnsent: () => void
+}
+
+/**
+ * The filter half of `useFilters` and `useDataTable`: values synced from
+ * props (and from the URL for filters the server doesn't echo), schema
+ * coercion and validation, dirty tracking, and writing the filters to a
+ * query. Visits are left to the caller through `onChange` and `onCommit`.
+ */
+export function createFilterState<T extends object>(
+    defaults: MaybeRefOrGetter<T>,
+    options: FilterStateOptions<T>,
+): FilterState<T> {
+    const {
+        serializer = 'brackets',
+        types = {},
+        schema = {},
+        preserveQuery = true,
+        exceptQuery = [],
+        namespace,
+        onChange,
+        onCommit,
+    } = options
+
+    const querySerializer = resolveQuerySerializer(serializer)
+
+    // `types` are schema fields with nothing but a type
+    const fields: Partial<Record<string, FilterField>> = {
+        ...Object.fromEntries(
+            Object.entries(types as Record<string, FilterValueType | undefined>)
+                .filter((entry): entry is [string, FilterValueType] => entry[1] !== undefined)
+                .map(([key, type]) => [key, { type }]),
+        ),
+        ...(schema as FilterSchema),
+    }
+
+    // Plain records inside; `T` is only the shape handed back to callers
+    const readDefaults = (): Record<string, unknown> => ({ ...toValue(defaults) }) as Record<string, unknown>
+
+    const sanitize = (result: Record<string, unknown>): Record<string, unknown> => {
+        Object.entries(fields).forEach(([key, field]) => {
+            if (field) result[key] = sanitizeField(result[key], field)
+        })
+        return result
+    }
+
+    const resolveDefaults = (): Record<string, unknown> => sanitize(readDefaults())
+
+    const readQuery = (): Record<string, unknown> => {
+        const fieldTypes = Object.fromEntries(Object.entries(fields).map(([key, field]) => [key, field?.type]))
+        const parsed = querySerializer.parse(getCurrentUrl().searchParams, namespace ? {} : fieldTypes)
+        const source = namespace ? parsed[namespace] : parsed
+        return isPlainObject(source) ? source : {}
+    }
+
+    // Filters the server didn't echo back are read from the URL
+    const resolveValues = (): Record<string, unknown> => {
+        const result = readDefaults()
+        const query = readQuery()
+        Object.keys({ ...result, ...fields }).forEach((key) => {
+            if (isEmptyValue(result[key]) && key in query) result[key] = query[key]
+        })
+        return sanitize(result)
+    }
+
+    // The value an empty filter of the same shape has
+    const emptyOf = (value: unknown): unknown => {
+        if (Array.isArray(value)) return []
+        if (isPlainObject(value)) return Object.fromEntries(Object.keys(value).map((key) => [key, emptyOf(value[key])]))
+        if (typeof value === 'boolean') return false
+        if (typeof value === 'number' || value instanceof Date) return null
+        return ''
+    }
+
+    // What each filter resets to, and is left out of the URL at. Props
+    // usually echo the active filters, so they only count as the default
+    // for filters the page was opened without.
+    const initialQuery = readQuery()
+    const initialDefaults = resolveDefaults()
+
+    // Filters reset since the last re-sync. Whatever the server echoes for
+    // them next is its default, e.g. `status: 'active'` after opening the
+    // page with `?status=archived`.
+    const resetKeys = new Set<string>()
+    const learnedDefaults = reactive<Record<string, unknown>>({})
+
+    const fixedDefault = (key: string, value: unknown): unknown => {
+        if (key in learnedDefaults) return learnedDefaults[key]
+        if (key in initialDefaults && !(key in initialQuery)) return initialDefaults[key]
+
+        const field = fields[key]
+        return field ? sanitizeField(undefined, field) : emptyOf(value)
+    }
+
+    const isSame = (key: string, a: unknown, b: unknown): boolean => {
+        const field = fields[key]
+        return field ? fieldEquals(a, b, field) : isEqual(a, b)
+    }
+
+    // Fields changed locally since the last visit. Re-syncing from props
+    // skips them, so a response can't overwrite what the user is typing.
+    const unsent = new Set<string>()
+
+    // Internal reactive state — used for all internal reads/writes
+    const _values = reactive(resolveValues())
+
+    // Re-sync values when defaults change (e.g., after an Inertia visit)
+    watch(
+        () => toValue(defaults),
+        () => {
+            const newValues = resolveValues()
+            Object.keys(newValues).forEach((key) => {
+                if (resetKeys.has(key)) learnedDefaults[key] = newValues[key]
+                if (!unsent.has(key)) _values[key] = newValues[key]
+            })
+            resetKeys.clear()
+        },
+        { deep: true },
+    )
+
+    // `status[]` and `filter[search]` belong to `status` and `filter`
+    const baseKey = (key: string): string => key.split('[')[0]
+
+    const isFilterParam = (key: string): boolean => {
+        const base = baseKey(key)
+        return namespace ? base === namespace : base in _values
+    }
+
+    const isPreserved = (key: string): boolean => {
+        const base = baseKey(key)
+        if (exceptQuery.includes(base)) return false
+        return Array.isArray(preserveQuery) ? preserveQuery.includes(base) : preserveQuery
+    }
+
+    const errors = computed(() => {
+        const result: Partial<Record<keyof T, string>> = {}
+        Object.entries(schema as FilterSchema).forEach(([key, field]) => {
+            const error = validateField(_values[key], field)
+            if (error !== null) result[key as keyof T] = error
+        })
+        return result
+    })
+
+    const isValid = computed(() => Object.keys(errors.value).length === 0)
+
+    const appendTo = (params: URLSearchParams): void => {
+        // Every active filter, echoed or not, but no defaults
+        const changed = Object.fromEntries(
+            Object.entries(_values).filter(([key, value]) => !isSame(key, value, fixedDefault(key, value))),
+        )
+        querySerializer
+            .serialize(namespace ? { [namespace]: changed } : changed)
+            .forEach((value, key) => params.append(key, value))
+    }
+
+    const change = (key: string): void => {
+        resetKeys.delete(key)
+        unsent.add(key)
+        onChange(key)
+    }
+
+    // Supports v-model binding: <Input v-model="values.search" />
+    const values = new Proxy(_values, {
+        set(target, prop, value) {
+            const result = Reflect.set(target, prop, value)
+            if (typeof prop === 'string' && (prop in toValue(defaults) || prop in fields)) {
+                change(prop)
+            }
+            return result
+        },
+    }) as T
+
+    const update = <K extends keyof T>(key: K, value: T[K]): void => {
+        _values[key as string] = value
+        change(key as string)
+    }
+
+    const updateMany = (updates: Partial<T>): void => {
+        Object.entries(updates).forEach(([key, value]) => {
+            _values[key] = value
+        })
+        onCommit()
+    }
+
+    const reset = (): void => {
+        Object.keys(_values).forEach((key) => {
+            _values[key] = fixedDefault(key, _values[key])
+            resetKeys.add(key)
+        })
+        onCommit()
+    }
+
+    const resetField = <K extends keyof T>(key: K): void => {
+        _values[key as string] = fixedDefault(key as string, _values[key as string])
+        resetKeys.add(key as string)
+        onCommit()
+    }
+
+    const isDirty = computed(() => {
+        return Object.keys(_values).some((key) => !isSame(key, _values[key], fixedDefault(key, _values[key])))
+    })
+
+    const activeCount = computed(() => {
+        return Object.keys(_values).filter((key) => {
+            const current = _values[key]
+            return !isEmptyValue(current) && !isSame(key, current, fixedDefault(key, current))
+        }).length
+    })
+
+    return {
+        values,
+        update,
+        updateMany,
+        reset,
+        resetField,
+        isDirty,
+        activeCount,
+        errors,
+        isValid,
+        isFilterParam,
+        isPreserved,
+        appendTo,
+        clearUnsent: () => unsent.clear(),
+    }
+}
@@ -0,0 +1,89 @@
+import type { AnyResourcePage, PaginationPageItem, Paginator, PaginatorType } from '../types'
+
+/**
+ * Detects which Laravel paginator produced a payload from the fields it carries.
+ */
+export function detectPaginatorType(paginator: Paginator<unknown>): PaginatorType {
+    if ('next_cursor' in paginator || 'prev_cursor' in paginator) return 'cursor'
+    if ('last_page' in paginator) return 'length-aware'
+    return 'simple'
+}
+
+/**
+ * Resource collections nest pagination under `meta` and turn `links`
+ * into an object of first/last/prev/next URLs.
+ */
+export function isResourcePage(value: unknown): value is AnyResourcePage<unknown> {
+    if (typeof value !== 'object' || value === null) return false
+
+    const { meta, links } = value as Record<string, unknown>
+    return typeof meta === 'object' && meta !== null && !Array.isArray(links)
+}
+
+/**
+ * Normalizes any supported payload into one of Laravel's flat paginator shapes.
+ */
+export function resolvePaginator<T>(
+    value: unknown,
+    adapter?: (value: unknown) => Paginator<T>,
+): Paginator<T> {
+    if (adapter) return adapter(value)
+
+    if (!isResourcePage(value)) return value as Paginator<T>
+
+    const { data, links, meta } = value as AnyResourcePage<T>
+
+    return {
+        ...meta,
+        data,
+        links: 'links' in meta ? meta.links : [],
+        first_page_url: links.first,
+        last_page_url: links.last,
+        next_page_url: links.next,
+        prev_page_url: links.prev,
+    } as Paginator<T>
+}
+
+const PAGE_GAP = '…'
+
+/**
+ * Builds a windowed list of page numbers with gaps, mirroring Laravel's
+ * UrlWindow: `[1, '…', 4, 5, 6, '…', 20]`. A gap of a single page is
+ * filled with that page rather than an ellipsis.
+ */
+export function buildPageWindow(
+    currentPage: number,
+    lastPage: number,
+    onEachSide: number,
+    onEnds: number,
+): PaginationPageItem[] {
+    if (lastPage < 1) return []
+
+    const included = new Set<number>()
+    const add = (from: number, to: number): void => {
+        for (let page = Math.max(1, from); page <= Math.min(lastPage, to); page++) {
+            included.add(page)
+        }
+    }
+
+    add(1, onEnds)
+    add(lastPage - onEnds + 1, lastPage)
+    add(currentPage - onEachSide, currentPage + onEachSide)
+
+    const sorted = [...included].sort((a, b) => a - b)
+    const pages: PaginationPageItem[] = []
+
+    sorted.forEach((page, i) => {
+        const previous = sorted[i - 1]
+
+        if (previous !== undefined && page - previous === 2) {
+            pages.push(previous + 1)
+        } else if (previous !== undefined && page - previous > 2) {
+            pages.push(PAGE_GAP)
+        }
+
+        pages.push(page)
+    })
+
+    return pages
+}
@@ -0,0 +1,32 @@
+/**
+ * Whether a `*` glob matches the value. `*` matches any run of characters,
+ * including dots and slashes.
+ */
+export function matchesGlob(pattern: string, value: string): boolean {
+    if (pattern === value || pattern === '*') return true
+    if (!pattern.includes('*')) return false
+
+    const source = pattern
+        .split('*')
+        .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+        .join('.*')
+
+    return new RegExp(`^${source}$`).test(value)
+}
+
+/**
+ * Whether a granted permission covers the requested ability.
+ *
+ * `posts.*` covers `posts.edit` and `posts.comments.delete`, and a bare `*`
+ * covers everything.
+ */
+export function matchesPermission(granted: string, ability: string): boolean {
+    return matchesGlob(granted, ability)
+}
+
+/**
+ * Extracts string entries from an unknown array, e.g. `user.roles`.
+ */
+export function stringList(value: unknown): string[] {
+    return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : []
+}
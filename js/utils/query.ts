@@ -0,0 +1,271 @@
+import type { FilterValueType, QueryFormat, QuerySerializer } from '../types'
+
+type QueryObject = Record<string, unknown>
+
+export const isPlainObject = (value: unknown): value is QueryObject =>
+    typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date)
+
+/**
+ * Whether a filter value should be left out of the query string entirely.
+ */
+export const isEmptyValue = (value: unknown): boolean => {
+    if (value === '' || value === null || value === undefined) return true
+    if (Array.isArray(value)) return value.length === 0
+    if (isPlainObject(value)) return Object.values(value).every(isEmptyValue)
+    return false
+}
+
+/**
+ * Structural equality for filter values (scalars, arrays and plain objects).
+ */
+export const isEqual = (a: unknown, b: unknown): boolean => {
+    if (a === b) return true
+
+    if (Array.isArray(a) && Array.isArray(b)) {
+        return a.length === b.length && a.every((item, i) => isEqual(item, b[i]))
+    }
+
+    if (a instanceof Date && b instanceof Date) {
+        return a.getTime() === b.getTime()
+    }
+
+    if (isPlainObject(a) && isPlainObject(b)) {
+        const keys = new Set([...Object.keys(a), ...Object.keys(b)])
+        return [...keys].every((key) => isEqual(a[key], b[key]))
+    }
+
+    return false
+}
+
+const scalarToString = (value: unknown): string => {
+    if (typeof value === 'boolean') return value ? '1' : '0'
+    if (value instanceof Date) return toDateString(value)
+    return String(value)
+}
+
+// Calendar dates (midnight UTC, as parsed from `2024-01-31`) keep their short form
+const toDateString = (date: Date): string => {
+    const iso = date.toISOString()
+    return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso
+}
+
+/**
+ * Splits a bracketed key into its path: `filter[price][min]` → ['filter', 'price', 'min'].
+ * Empty brackets (`status[]`) produce an empty segment.
+ */
+const parseKeyPath = (key: string): string[] => {
+    const match = key.match(/^([^[]+)((?:\[[^\]]*\])*)$/)
+    if (!match) return [key]
+
+    const segments = [...match[2].matchAll(/\[([^\]]*)\]/g)].map((m) => m[1])
+    return [match[1], ...segments]
+}
+
+// `[]` and `[0]` both index into a list
+const isIndex = (segment: string | undefined): boolean => segment !== undefined && /^\d*$/.test(segment)
+
+const assignPath = (target: QueryObject, path: string[], value: unknown): void => {
+    let node: QueryObject | unknown[] = target
+
+    path.forEach((segment, i) => {
+        const isLast = i === path.length - 1
+
+        if (Array.isArray(node)) {
+            const index = segment === '' ? node.length : Number(segment)
+            if (isLast) {
+                node[index] = value
+                return
+            }
+            if (!Array.isArray(node[index]) && !isPlainObject(node[index])) {
+                node[index] = isIndex(path[i + 1]) ? [] : {}
+            }
+            node = node[index] as QueryObject | unknown[]
+            return
+        }
+
+        if (isLast) {
+            node[segment] = value
+            return
+        }
+
+        const existing = node[segment]
+        if (!Array.isArray(existing) && !isPlainObject(existing)) {
+            node[segment] = isIndex(path[i + 1]) ? [] : {}
+        }
+        node = node[segment] as QueryObject | unknown[]
+    })
+}
+
+const appendBrackets = (
+    params: URLSearchParams,
+    key: string,
+    value: unknown,
+    joinArrays: boolean,
+): void => {
+    if (isEmptyValue(value)) return
+
+    if (Array.isArray(value)) {
+        // Items with their own commas fall back to brackets, so they split back the same way
+        const joinable = value.every((item) => !Array.isArray(item) && !isPlainObject(item)
+            && !scalarToString(item).includes(','))
+        if (joinArrays && joinable) {
+            params.append(key, value.map(scalarToString).join(','))
+            return
+        }
+
+        value.forEach((item, i) => {
+            const itemKey = isPlainObject(item) || Array.isArray(item) ? `${key}[${i}]` : `${key}[]`
+            appendBrackets(params, itemKey, item, joinArrays)
+        })
+        return
+    }
+
+    if (isPlainObject(value)) {
+        Object.entries(value).forEach(([childKey, child]) => {
+            appendBrackets(params, `${key}[${childKey}]`, child, joinArrays)
+        })
+        return
+    }
+
+    params.append(key, scalarToString(value))
+}
+
+const parseBrackets = (params: URLSearchParams, splitCommas: (key: string) => boolean): QueryObject => {
+    const result: QueryObject = {}
+
+    params.forEach((value, key) => {
+        const parsed = splitCommas(key) && value !== '' ? value.split(',') : value
+        assignPath(result, parseKeyPath(key), parsed)
+    })
+
+    return result
+}
+
+/**
+ * Laravel-style bracket notation: `status[]=a&status[]=b`, `filter[price][min]=10`.
+ */
+const bracketSerializer: QuerySerializer = {
+    serialize: (values) => {
+        const params = new URLSearchParams()
+        Object.entries(values).forEach(([key, value]) => appendBrackets(params, key, value, false))
+        return params
+    },
+    parse: (params) => parseBrackets(params, () => false),
+}
+
+/**
+ * Comma-joined arrays: `status=a,b`. Nested objects still use brackets.
+ * A comma can't tell a list from free text, so only keys declared as
+ * `array` are split when parsing.
+ */
+const commaSerializer: QuerySerializer = {
+    serialize: (values) => {
+        const params = new URLSearchParams()
+        Object.entries(values).forEach(([key, value]) => appendBrackets(params, key, value, true))
+        return params
+    },
+    parse: (params, types = {}) => parseBrackets(params, (key) => types[key] === 'array'),
+}
+
+// Strings that would parse as something else are JSON-encoded too
+const looksLikeJson = (value: string): boolean => /^["[{]|^(true|false|null|-?\d+(\.\d+)?([eE][+-]?\d+)?)$/.test(value)
+
+/**
+ * JSON-encoded non-string values: `status=["a","b"]`, `active=true`.
+ */
+const jsonSerializer: QuerySerializer = {
+    serialize: (values) => {
+        const params = new URLSearchParams()
+        Object.entries(values).forEach(([key, value]) => {
+            if (isEmptyValue(value)) return
+            if (value instanceof Date) {
+                params.append(key, scalarToString(value))
+                return
+            }
+            params.append(key, typeof value === 'string' && !looksLikeJson(value) ? value : JSON.stringify(value))
+        })
+        return params
+    },
+    parse: (params) => {
+        const result: QueryObject = {}
+        params.forEach((value, key) => {
+            try {
+                result[key] = looksLikeJson(value) ? JSON.parse(value) : value
+            } catch {
+                result[key] = value
+            }
+        })
+        return result
+    },
+}
+
+const serializers: Record<QueryFormat, QuerySerializer> = {
+    brackets: bracketSerializer,
+    comma: commaSerializer,
+    json: jsonSerializer,
+}
+
+export function resolveQuerySerializer(format: QueryFormat | QuerySerializer = 'brackets'): QuerySerializer {
+    return typeof format === 'string' ? serializers[format] : format
+}
+
+/**
+ * Coerces a raw (usually string) value from props or the URL into the declared type.
+ */
+export function coerceValue(value: unknown, type: FilterValueType): unknown {
+    switch (type) {
+        case 'string':
+            if (value === null || value === undefined) return ''
+            return Array.isArray(value) ? value.join(',') : String(value)
+
+        case 'number': {
+            if (value === null || value === undefined || value === '') return null
+            const number = typeof value === 'number' ? value : Number(value)
+            return Number.isNaN(number) ? null : number
+        }
+
+        case 'boolean':
+            if (typeof value === 'boolean') return value
+            return ['1', 'true', 'on', 'yes'].includes(String(value).toLowerCase())
+
+        case 'date': {
+            if (value === null || value === undefined || value === '') return null
+            const date = value instanceof Date ? value : new Date(value as string | number)
+            return Number.isNaN(date.getTime()) ? null : date
+        }
+
+        case 'array':
+            if (Array.isArray(value)) return value
+            if (value === null || value === undefined || value === '') return []
+            if (typeof value === 'string') return value.split(',').filter((item) => item !== '')
+            return isPlainObject(value) ? Object.values(value) : [value]
+
+        case 'object':
+            if (isPlainObject(value)) return value
+            if (typeof value === 'string') {
+                try {
+                    const parsed = JSON.parse(value)
+                    return isPlainObject(parsed) ? parsed : {}
+                } catch {
+                    return {}
+                }
+            }
+            return {}
+    }
+}
+
+/**
+ * Coerces every key that has a declared type, leaving the others untouched.
+ */
+export function coerceValues<T extends Record<string, unknown>>(
+    values: T,
+    types: Partial<Record<keyof T, FilterValueType>>,
+): T {
+    const result = { ...values } as Record<string, unknown>
+
+    Object.entries(types).forEach(([key, type]) => {
+        if (type) result[key] = coerceValue(result[key], type as FilterValueType)
+    })
+
+    return result as T
+}
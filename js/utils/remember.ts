@@ -0,0 +1,151 @@
+import { getCurrentInstance, getCurrentScope, onMounted, onScopeDispose, watch, type WatchStopHandle } from 'vue'
+import { router, usePage } from '@inertiajs/vue3'
+import { getCurrentUrl, getOrigin } from './ssr'
+import type { RememberOptions } from '../types'
+
+const STORAGE_PREFIX = 'remember:'
+const DEFAULT_TTL = 24 * 60 * 60 * 1000
+
+interface RememberedQuery {
+    query: string
+    expires: number | null
+}
+
+// Keys with a restore visit under way, so several composables on one
+// page don't each send their own
+const restoring = new Set<string>()
+
+const normalizeOptions = (option: boolean | RememberOptions): RememberOptions => {
+    return option === true ? {} : (option || {})
+}
+
+const resolveStorage = (storage: RememberOptions['storage'] = 'session'): Storage | null => {
+    if (typeof storage !== 'string') return storage
+    if (typeof window === 'undefined') return null
+    return storage === 'local' ? window.localStorage : window.sessionStorage
+}
+
+const read = (storage: Storage, key: string): string | null => {
+    try {
+        const entry = JSON.parse(storage.getItem(STORAGE_PREFIX + key) ?? 'null') as RememberedQuery | null
+        if (!entry || typeof entry.query !== 'string') return null
+
+        if (entry.expires !== null && entry.expires < Date.now()) {
+            storage.removeItem(STORAGE_PREFIX + key)
+            return null
+        }
+
+        return entry.query
+    } catch {
+        return null
+    }
+}
+
+const write = (storage: Storage, key: string, search: string, options: RememberOptions): void => {
+    const { ttl = DEFAULT_TTL, except = ['page', 'cursor'] } = options
+
+    const params = new URLSearchParams(search)
+    except.forEach((param) => params.delete(param))
+    const query = params.toString()
+
+    // A full quota or blocked storage just means nothing is remembered
+    try {
+        if (!query) {
+            storage.removeItem(STORAGE_PREFIX + key)
+            return
+        }
+
+        const entry: RememberedQuery = { query, expires: ttl === null ? null : Date.now() + ttl }
+        storage.setItem(STORAGE_PREFIX + key, JSON.stringify(entry))
+    } catch {
+        // Nothing is remembered this time
+    }
+}
+
+/**
+ * Keeps the current page's query string in Web Storage and, when the page
+ * is opened again with no query at all (e.g. from a sidebar link),
+ * restores it with a replace visit. Does nothing unless `option` is set.
+ *
+ * Once mounted, every later URL for the same path is remembered, so
+ * clearing the filters also clears what's remembered. That stops with the
+ * calling component or effect scope, or when the returned function is called.
+ */
+export function rememberQuery(option: boolean | RememberOptions | undefined): () => void {
+    if (!option) return () => {}
+
+    const options = normalizeOptions(option)
+    const page = usePage()
+    const path = getCurrentUrl().pathname
+    const key = options.key ?? path
+
+    let stopWatch: WatchStopHandle | null = null
+    let stopped = false
+
+    const stop = (): void => {
+        stopped = true
+        stopWatch?.()
+    }
+
+    const start = (): void => {
+        if (stopped) return
+
+        const storage = resolveStorage(options.storage)
+        if (!storage) return
+
+        const search = getCurrentUrl().search
+        const remembered = read(storage, key)
+
+        if (!search && remembered) {
+            if (!restoring.has(key)) {
+                restoring.add(key)
+                Promise.resolve().then(() => restoring.delete(key))
+
+                router.visit(`${path}?${remembered}`, {
+                    replace: true,
+                    preserveScroll: true,
+                    preserveState: true,
+                })
+            }
+        } else {
+            write(storage, key, search, options)
+        }
+
+        stopWatch = watch(
+            () => page.url,
+            (url) => {
+                const next = new URL(url, getOrigin())
+                if (next.pathname === path) write(storage, key, next.search, options)
+            },
+        )
+    }
+
+    // Storage only exists in the browser, so wait for the mount
+    if (getCurrentInstance()) {
+        onMounted(start)
+    } else {
+        start()
+    }
+
+    if (getCurrentScope()) onScopeDispose(stop)
+
+    return stop
+}
+
+/**
+ * Clears a remembered query, e.g. from a "reset all" button, so the next
+ * bare visit shows the server defaults again.
+ *
+ * @example
+ * forgetQuery()                       // the current page
+ * forgetQuery({ key: '/users', storage: 'local' })
+ */
+export function forgetQuery(options: Pick<RememberOptions, 'key' | 'storage'> = {}): void {
+    const key = options.key ?? getCurrentUrl().pathname
+
+    try {
+        resolveStorage(options.storage)?.removeItem(STORAGE_PREFIX + key)
+    } catch {
+        // Blocked storage has nothing to forget
+    }
+}
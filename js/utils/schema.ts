@@ -0,0 +1,113 @@
+import { coerceValue, isEmptyValue, isEqual } from './query'
+import type { FilterField, FilterValueType } from '../types'
+
+/**
+ * The value a field falls back to when the incoming value is missing or invalid.
+ */
+export function fieldDefault(field: FilterField): unknown {
+    return coerceValue(field.default, field.type)
+}
+
+// The quantity `min` and `max` are compared against, for types that have one
+const measure = (value: unknown, type: FilterValueType): number | null => {
+    switch (type) {
+        case 'number':
+            return value as number
+        case 'date':
+            return (value as Date).getTime()
+        case 'string':
+            return (value as string).length
+        case 'array':
+            return (value as unknown[]).length
+        default:
+            return null
+    }
+}
+
+const toBound = (bound: number | string | Date, type: FilterValueType): number => {
+    return type === 'date' ? new Date(bound).getTime() : Number(bound)
+}
+
+const formatBound = (bound: number | string | Date): string => {
+    return bound instanceof Date ? bound.toISOString().slice(0, 10) : String(bound)
+}
+
+const boundMessage = (edge: 'min' | 'max', bound: number | string | Date, type: FilterValueType): string => {
+    const text = formatBound(bound)
+
+    switch (type) {
+        case 'date':
+            return edge === 'min' ? `Must be on or after ${text}.` : `Must be on or before ${text}.`
+        case 'string':
+            return edge === 'min' ? `Must be at least ${text} characters.` : `Must be at most ${text} characters.`
+        case 'array':
+            return edge === 'min' ? `Select at least ${text}.` : `Select at most ${text}.`
+        default:
+            return edge === 'min' ? `Must be at least ${text}.` : `Must be at most ${text}.`
+    }
+}
+
+const findError = (value: unknown, field: FilterField): string | null => {
+    const { type } = field
+
+    if (type === 'number' && value === null) return 'Must be a number.'
+    if (type === 'date' && value === null) return 'Must be a valid date.'
+
+    if (field.enum) {
+        const allowed = field.enum.map(String)
+        const items = Array.isArray(value) ? value : [value]
+        if (items.some((item) => !allowed.includes(String(item)))) {
+            return `Must be one of: ${field.enum.join(', ')}.`
+        }
+    }
+
+    const size = measure(value, type)
+    if (size === null) return null
+
+    if (field.min !== undefined && size < toBound(field.min, type)) return boundMessage('min', field.min, type)
+    if (field.max !== undefined && size > toBound(field.max, type)) return boundMessage('max', field.max, type)
+
+    return null
+}
+
+/**
+ * Checks a value against its field, returning an error message or null.
+ * Empty values are always valid — they just mean the filter is off.
+ */
+export function validateField(value: unknown, field: FilterField): string | null {
+    if (isEmptyValue(value)) return null
+
+    const error = findError(coerceValue(value, field.type), field)
+    return error === null ? null : field.message ?? error
+}
+
+/**
+ * Coerces an incoming value (from props or the URL) into the field's type,
+ * replacing missing or invalid values with the field's default.
+ */
+export function sanitizeField(value: unknown, field: FilterField): unknown {
+    if (value === null || value === undefined || validateField(value, field) !== null) {
+        return fieldDefault(field)
+    }
+
+    return coerceValue(value, field.type)
+}
+
+const sortItems = (items: unknown[]): unknown[] => {
+    return [...items].sort((a, b) => String(a).localeCompare(String(b)))
+}
+
+/**
+ * Compares two values as the field's type: `'5'` equals `5`, a date string
+ * equals the same `Date`, and array order doesn't matter.
+ */
+export function fieldEquals(a: unknown, b: unknown, field: FilterField): boolean {
+    const left = coerceValue(a, field.type)
+    const right = coerceValue(b, field.type)
+
+    if (field.type === 'array') {
+        return isEqual(sortItems(left as unknown[]), sortItems(right as unknown[]))
+    }
+
+    return isEqual(left, right)
+}
@@ -0,0 +1,73 @@
+import type { SortDirection, SortState } from '../types'
+
+/**
+ * Parses a multi-column sort param into sort states, in priority order.
+ * A leading `-` marks a descending column: `status,-created_at`.
+ */
+export function parseSortParam(value: string | null | undefined): SortState[] {
+    if (!value) return []
+
+    return value
+        .split(',')
+        .map((part) => part.trim())
+        .filter((part) => part !== '' && part !== '-')
+        .map((part) =>
+            part.startsWith('-')
+                ? { field: part.slice(1), direction: 'desc' as const }
+                : { field: part, direction: 'asc' as const },
+        )
+}
+
+/**
+ * Serializes sort states into the format read by `parseSortParam`.
+ */
+export function serializeSortParam(sorts: SortState[]): string {
+    return sorts
+        .map((sort) => (sort.direction === 'desc' ? `-${sort.field}` : sort.field))
+        .join(',')
+}
+
+/**
+ * Next step in a column's toggle cycle: asc → desc → none.
+ */
+export function nextSortDirection(direction: SortDirection | null): SortDirection | null {
+    if (direction === null) return 'asc'
+    return direction === 'asc' ? 'desc' : null
+}
+
+/**
+ * The sorts after clicking a column.
+ *
+ * Single-column: the same column toggles asc ↔ desc and a new column sorts
+ * ascending. Multi-column: the column cycles asc → desc → none, and is
+ * added to (`additive`) or replaces the current sorts.
+ */
+export function nextSorts(
+    current: SortState[],
+    field: string,
+    { multiple = false, additive = false }: { multiple?: boolean; additive?: boolean } = {},
+): SortState[] {
+    if (!multiple) {
+        const direction: SortDirection = current[0]?.field === field && current[0].direction === 'asc'
+            ? 'desc'
+            : 'asc'
+
+        return [{ field, direction }]
+    }
+
+    const existing = current.find((sort) => sort.field === field)
+    const direction = nextSortDirection(existing?.direction ?? null)
+
+    if (!additive) {
+        return direction ? [{ field, direction }] : []
+    }
+
+    if (!existing) {
+        return [...current, { field, direction: 'asc' }]
+    }
+
+    return current.flatMap((sort) => {
+        if (sort.field !== field) return [sort]
+        return direction ? [{ field, direction }] : []
+    })
+}
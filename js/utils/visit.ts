@@ -0,0 +1,136 @@
+import { computed, ref, toValue, type ComputedRef, type MaybeRefOrGetter } from 'vue'
+import { router } from '@inertiajs/vue3'
+import { getCurrentUrl, getOrigin } from './ssr'
+
+interface VisitSchedulerOptions {
+    preserveScroll: boolean
+    /** Read for each visit, so callers can choose per change */
+    replace: MaybeRefOrGetter<boolean>
+    only: string[]
+    /** Called whenever a scheduled visit is dispatched (or found redundant) */
+    onDispatch?: () => void
+}
+
+export interface VisitScheduler {
+    /** Visit after `delay` ms, replacing any pending visit. No delay visits now. */
+    schedule: (delay?: number) => void
+    /** Visit now, replacing any pending visit */
+    visit: () => void
+    /** Send a pending visit now */
+    flush: () => void
+    /** Drop a pending visit and cancel the one in flight */
+    cancel: () => void
+    isLoading: ComputedRef<boolean>
+    /** Drop a pending visit, leaving any in-flight request alone */
+    dispose: () => void
+}
+
+// Compare URLs regardless of param order
+const normalizeUrl = (url: string): string => {
+    const parsed = new URL(url, getOrigin())
+    parsed.searchParams.sort()
+    return `${parsed.pathname}?${parsed.searchParams.toString()}`
+}
+
+/**
+ * One visit queue for a set of query controls: a single pending timer, so
+ * overlapping changes collapse into one visit, and the in-flight request,
+ * so a newer visit can cancel it. Visits to the URL already shown (or
+ * already being fetched) are skipped, and `buildUrl` can return `null` to
+ * hold a visit back entirely, e.g. while a value is invalid.
+ */
+export function createVisitScheduler(buildUrl: () => string | null, options: VisitSchedulerOptions): VisitScheduler {
+    const { preserveScroll, replace, only, onDispatch } = options
+
+    const _isLoading = ref(false)
+    let timer: ReturnType<typeof setTimeout> | null = null
+    let pending = false
+    let inFlight: { url: string; cancel: () => void } | null = null
+    let requestId = 0
+
+    const clearTimer = (): void => {
+        if (timer) clearTimeout(timer)
+        timer = null
+    }
+
+    const visit = (): void => {
+        clearTimer()
+        pending = false
+
+        const url = buildUrl()
+        if (url === null) return
+
+        onDispatch?.()
+
+        // Already showing (or fetching) these results
+        const currentUrl = getCurrentUrl()
+        const latest = inFlight?.url ?? `${currentUrl.pathname}${currentUrl.search}`
+        if (normalizeUrl(url) === normalizeUrl(latest)) return
+
+        // A newer visit makes the in-flight one stale
+        inFlight?.cancel()
+        inFlight = null
+
+        const id = ++requestId
+        const request = { url, cancel: () => {} }
+        inFlight = request
+
+        _isLoading.value = true
+
+        router.visit(url, {
+            preserveScroll,
+            replace: toValue(replace),
+            only: only.length > 0 ? only : undefined,
+            onCancelToken: (token) => {
+                request.cancel = () => token.cancel()
+            },
+            onFinish: () => {
+                // Cancelled requests finish too; only the latest one counts
+                if (id !== requestId) return
+                inFlight = null
+                _isLoading.value = false
+            },
+        })
+    }
+
+    const schedule = (delay?: number): void => {
+        pending = true
+        clearTimer()
+
+        if (delay && delay > 0) {
+            timer = setTimeout(visit, delay)
+        } else {
+            visit()
+        }
+    }
+
+    const flush = (): void => {
+        if (pending) visit()
+    }
+
+    const cancel = (): void => {
+        clearTimer()
+        pending = false
+
+        if (inFlight) {
+            inFlight.cancel()
+            inFlight = null
+            requestId++
+            _isLoading.value = false
+        }
+    }
+
+    const dispose = (): void => {
+        clearTimer()
+        pending = false
+    }
+
+    return {
+        schedule,
+        visit,
+        flush,
+        cancel,
+        isLoading: computed(() => _isLoading.value),
+        dispose,
+    }
+}
@@ -20,14 +20,37 @@ class BreadcrumbTrail
      *
      * @param  string  $label  The display text for the breadcrumb
      * @param  string|null  $url  The URL (null for the current/last page)
+     * @param  string|null  $icon  An icon name for the frontend to render
+     * @param  array  $meta  Any extra data for the frontend
+     * @param  bool|null  $current  Mark this crumb as the current page
      */
-    public function push(string $label, ?string $url = null): static
-    {
-        $this->crumbs[] = [
+    public function push(
+        string $label,
+        ?string $url = null,
+        ?string $icon = null,
+        array $meta = [],
+        ?bool $current = null,
+    ): static {
+        $crumb = [
             'label' => $label,
             'url' => $url,
         ];
 
+        // Optional keys are only sent when set, keeping the payload small
+        if ($icon !== null) {
+            $crumb['icon'] = $icon;
+        }
+
+        if ($meta !== []) {
+            $crumb['meta'] = $meta;
+        }
+
+        if ($current !== null) {
+            $crumb['current'] = $current;
+        }
+
+        $this->crumbs[] = $crumb;
+
         return $this;
     }
 
@@ -30,14 +30,49 @@ class SharedData
         $user = $request->user();
 
         return [
-            'user' => $user ? [
-                'id' => $user->id,
-                'name' => $user->name,
-                'email' => $user->email,
-            ] : null,
+            'user' => $user ? $this->user($user) : null,
+            'impersonator' => $user ? $this->impersonator($user) : null,
+            'requiresTwoFactor' => $this->requiresTwoFactor($request),
         ];
     }
 
+    /**
+     * The shape shared for a user (and for the impersonator).
+     */
+    protected function user(object $user): array
+    {
+        return [
+            'id' => $user->id,
+            'name' => $user->name,
+            'email' => $user->email,
+            'email_verified_at' => $user->email_verified_at ?? null,
+        ];
+    }
+
+    /**
+     * The original user while impersonating.
+     * Works with lab404/laravel-impersonate out of the box.
+     */
+    protected function impersonator(object $user): ?array
+    {
+        if (! method_exists($user, 'isImpersonated') || ! $user->isImpersonated()) {
+            return null;
+        }
+
+        $impersonator = $user::find(app('impersonate')->getImpersonatorId());
+
+        return $impersonator ? $this->user($impersonator) : null;
+    }
+
+    /**
+     * Whether a two-factor challenge is pending.
+     * Fortify keeps the half-authenticated user's id in `login.id`.
+     */
+    protected function requiresTwoFactor(Request $request): bool
+    {
+        return $request->hasSession() && $request->session()->has('login.id');
+    }
+
     /**
      * Flash messages.
      * Supports both the Flash builder (rich messages) and plain
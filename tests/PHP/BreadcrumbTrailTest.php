@@ -112,3 +112,18 @@ it('returns empty array for a fresh trail', function () {
 
     expect($trail->toArray())->toBe([]);
 });
+
+it('includes icon, meta and current only when given', function () {
+    $breadcrumbs = new Breadcrumbs();
+    $trail = new BreadcrumbTrail($breadcrumbs);
+
+    $trail->push('Home', '/', icon: 'home');
+    $trail->push('Orders', '/orders', meta: ['count' => 12]);
+    $trail->push('Order #1042', current: true);
+
+    expect($trail->toArray())->toBe([
+        ['label' => 'Home', 'url' => '/', 'icon' => 'home'],
+        ['label' => 'Orders', 'url' => '/orders', 'meta' => ['count' => 12]],
+        ['label' => 'Order #1042', 'url' => null, 'current' => true],
+    ]);
+});
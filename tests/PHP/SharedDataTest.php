@@ -31,17 +31,56 @@ it('shares auth data for authenticated user', function () {
             'id' => 1,
             'name' => 'John Doe',
             'email' => 'john@example.com',
+            'email_verified_at' => null,
         ],
+        'impersonator' => null,
+        'requiresTwoFactor' => false,
     ]);
 });
 
+it('shares the email verification timestamp', function () {
+    $user = new class
+    {
+        public int $id = 1;
+
+        public string $name = 'John Doe';
+
+        public string $email = 'john@example.com';
+
+        public string $email_verified_at = '2024-01-01T00:00:00.000000Z';
+    };
+
+    $request = Request::create('/test');
+    $request->setUserResolver(fn () => $user);
+
+    $auth = $this->sharedData->auth($request);
+
+    expect($auth['user']['email_verified_at'])->toBe('2024-01-01T00:00:00.000000Z');
+});
+
+it('shares a pending two-factor challenge', function () {
+    Session::put('login.id', 1);
+
+    $request = Request::create('/test');
+    $request->setLaravelSession(app('session.store'));
+    $request->setUserResolver(fn () => null);
+
+    $auth = $this->sharedData->auth($request);
+
+    expect($auth['requiresTwoFactor'])->toBeTrue();
+});
+
 it('shares null user for guests', function () {
     $request = Request::create('/test');
     $request->setUserResolver(fn () => null);
 
     $auth = $this->sharedData->auth($request);
 
-    expect($auth)->toBe(['user' => null]);
+    expect($auth)->toBe([
+        'user' => null,
+        'impersonator' => null,
+        'requiresTwoFactor' => false,
+    ]);
 });
 
 it('shares rich flash messages from the Flash builder', function () {
@@ -124,6 +163,10 @@ it('returns shared data as an array with closures', function () {
     expect($data['breadcrumbs'])->toBeInstanceOf(Closure::class);
 
     // Calling the closures should return the actual data
-    expect(($data['auth'])())->toBe(['user' => null]);
+    expect(($data['auth'])())->toBe([
+        'user' => null,
+        'impersonator' => null,
+        'requiresTwoFactor' => false,
+    ]);
     expect(($data['flash'])()['messages'])->toBe([]);
 });